@@ -0,0 +1,42 @@
+// public/push-sw.js
+// Imported into the Workbox-generated service worker (see workbox.importScripts in vite.config.ts).
+// Shows OS-level notifications for Web Push messages sent by the send-push-notification Edge Function.
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  if (event.data) {
+    try {
+      payload = event.data.json();
+    } catch {
+      payload = { body: event.data.text() };
+    }
+  }
+
+  const title = payload.title || 'ResearchCollab';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-192x192.png',
+      tag: payload.tag,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      // Reuse an open tab of the app if there is one.
+      for (const client of windowClients) {
+        if (client.url.startsWith(self.location.origin) && 'focus' in client) {
+          return client.navigate(targetUrl).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(targetUrl);
+    })
+  );
+});
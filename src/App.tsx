@@ -22,8 +22,10 @@ const AdminDashboardPage = React.lazy(() => import('./pages/AdminDashboardPage.t
 const EditProjectPage = React.lazy(() => import('./pages/EditProjectPage.tsx'));
 const ProfilePage = React.lazy(() => import('./pages/ProfilePage.tsx')); 
 const ViewProfilePage = React.lazy(() => import('./pages/ViewProfilePage.tsx'));
+const NotificationsPage = React.lazy(() => import('./pages/NotificationsPage.tsx'));
 const ForgotPasswordPage = React.lazy(() => import('./pages/ForgotPasswordPage.tsx'));
 const UpdatePasswordPage = React.lazy(() => import('./pages/UpdatePasswordPage.tsx'));// Assuming this page will exist
+const VerifyCredentialPage = React.lazy(() => import('./pages/VerifyCredentialPage.tsx'));
 
 interface ProtectedRouteProps {
   children: JSX.Element;
@@ -61,6 +63,8 @@ const AppContent: React.FC = () => {
             <Route path="/signup" element={<SignupPage />} />
             <Route path="/forgot-password" element={<ForgotPasswordPage />} />
             <Route path="/update-password" element={<UpdatePasswordPage />} />
+            <Route path="/verify" element={<VerifyCredentialPage />} />
+            <Route path="/verify/:code" element={<VerifyCredentialPage />} /> {/* Public: checks certificates and letters */}
             
             <Route path="/dashboard" element={<ProtectedRoute><DashboardPage /></ProtectedRoute>} />
             
@@ -75,6 +79,7 @@ const AppContent: React.FC = () => {
             <Route path="/admin" element={<ProtectedRoute roles={['admin']}><AdminDashboardPage /></ProtectedRoute>} />
             <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} /> {/* This stays the same, for editing your own profile */}
             <Route path="/profile/:userId" element={<ProtectedRoute><ViewProfilePage /></ProtectedRoute>} /> {/* This is the new route for viewing profiles */}
+            <Route path="/notifications" element={<ProtectedRoute><NotificationsPage /></ProtectedRoute>} />
             
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
@@ -0,0 +1,154 @@
+// components/admin/ExchangeRatesManager.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { ExchangeRate, NotificationType } from '../../types.ts';
+import { getExchangeRates, saveExchangeRate, deleteExchangeRate } from '../../services/apiService.ts';
+import { SUPPORTED_CURRENCIES } from '../../constants.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import Input from '../ui/Input.tsx';
+import Select from '../ui/Select.tsx';
+import { PlusCircle, Trash2 } from 'lucide-react';
+
+interface ExchangeRatesManagerProps {
+  onChange?: () => void; // Called after a rate is saved or deleted, e.g. to refresh a report
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const ExchangeRatesManager: React.FC<ExchangeRatesManagerProps> = ({ onChange }) => {
+  const { addNotification } = useNotifications();
+
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState(SUPPORTED_CURRENCIES[1] || SUPPORTED_CURRENCIES[0]);
+  const [quoteCurrency, setQuoteCurrency] = useState(SUPPORTED_CURRENCIES[0]);
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(today());
+
+  const loadRates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await getExchangeRates();
+      if (error) throw error;
+      setRates(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load exchange rates.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+    if (baseCurrency === quoteCurrency) {
+      addNotification('Choose two different currencies.', NotificationType.WARNING);
+      return;
+    }
+    if (!(value > 0)) {
+      addNotification('Enter a rate greater than zero.', NotificationType.WARNING);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { error } = await saveExchangeRate({
+        base_currency: baseCurrency,
+        quote_currency: quoteCurrency,
+        rate: value,
+        effective_date: effectiveDate || today(),
+      });
+      if (error) throw error;
+      addNotification('Exchange rate saved.', NotificationType.SUCCESS);
+      setRate('');
+      await loadRates();
+      onChange?.();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to save the exchange rate.', NotificationType.ERROR);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    try {
+      const { error } = await deleteExchangeRate(rateId);
+      if (error) throw error;
+      setRates(prev => prev.filter(r => r.id !== rateId));
+      onChange?.();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to delete the exchange rate.', NotificationType.ERROR);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSave} className="flex flex-col md:flex-row md:items-end gap-3">
+        <Select label="1 unit of" value={baseCurrency} onChange={(e) => setBaseCurrency(e.target.value)} containerClassName="mb-0">
+          {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+        </Select>
+        <Input
+          name="exchangeRate"
+          label="equals"
+          type="number"
+          step="any"
+          min="0"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          placeholder="e.g., 57.25"
+          containerClassName="mb-0"
+        />
+        <Select label="of" value={quoteCurrency} onChange={(e) => setQuoteCurrency(e.target.value)} containerClassName="mb-0">
+          {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+        </Select>
+        <Input
+          name="exchangeRateEffectiveDate"
+          label="Effective from"
+          type="date"
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          containerClassName="mb-0"
+        />
+        <Button type="submit" isLoading={isSaving} leftIcon={<PlusCircle size={16}/>}>Save Rate</Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4"><Spinner /></div>
+      ) : rates.length === 0 ? (
+        <p className="text-sm text-gray-500">No exchange rates yet. Reports show totals per currency until rates are added.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pair</th>
+                <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective from</th>
+                <th scope="col" className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rates.map(r => (
+                <tr key={r.id}>
+                  <td className="px-4 py-2 text-gray-800">1 {r.base_currency} → {r.quote_currency}</td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-800">{Number(r.rate).toLocaleString(undefined, { maximumFractionDigits: 8 })}</td>
+                  <td className="px-4 py-2 text-gray-600">{new Date(r.effective_date).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-right">
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(r.id)} className="text-red-500 hover:bg-red-100" leftIcon={<Trash2 size={14}/>}>Delete</Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesManager;
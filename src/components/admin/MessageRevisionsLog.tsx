@@ -0,0 +1,97 @@
+// components/admin/MessageRevisionsLog.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MessageRevision, MessageRevisionAction, NotificationType } from '../../types.ts';
+import { getMessageRevisionsAdmin } from '../../services/apiService.ts';
+import { PAGINATION_PAGE_SIZE } from '../../constants.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import { Paperclip } from 'lucide-react';
+
+// Prior versions of edited and deleted chat messages, newest change first.
+const MessageRevisionsLog: React.FC = () => {
+  const { addNotification } = useNotifications();
+
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadRevisions = useCallback(async (pageToLoad: number) => {
+    setIsLoading(true);
+    try {
+      const { data, error, count } = await getMessageRevisionsAdmin(pageToLoad);
+      if (error) throw error;
+      setRevisions(prev => (pageToLoad === 1 ? data || [] : [...prev, ...(data || [])]));
+      setPage(pageToLoad);
+      setHasMore((count || 0) > pageToLoad * PAGINATION_PAGE_SIZE);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load chat message history.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    loadRevisions(1);
+  }, [loadRevisions]);
+
+  if (isLoading && revisions.length === 0) return <div className="flex justify-center py-4"><Spinner /></div>;
+  if (revisions.length === 0) return <p className="text-sm text-gray-500">No chat messages have been edited or deleted.</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changed</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Project</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Author</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Previous version</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {revisions.map(r => (
+              <tr key={r.id} className="align-top">
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                  {new Date(r.created_at).toLocaleString()}
+                  <p className="text-xs text-gray-400">Sent {new Date(r.message_created_at).toLocaleString()}</p>
+                </td>
+                <td className="px-4 py-2">
+                  {r.project ? <Link to={`/projects/${r.project.id}`} className="text-primary hover:underline">{r.project.title}</Link> : <span className="text-gray-400">Deleted project</span>}
+                </td>
+                <td className="px-4 py-2 text-gray-800">
+                  {r.sender_user?.name || 'User'}
+                  {r.sender_user?.email && <p className="text-xs text-gray-500">{r.sender_user.email}</p>}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${r.action === MessageRevisionAction.DELETED ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                    {r.action === MessageRevisionAction.DELETED ? 'Deleted' : 'Edited'}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-gray-700 max-w-md">
+                  {r.message_text ? <p className="whitespace-pre-wrap break-words">{r.message_text}</p> : <p className="italic text-gray-400">No text</p>}
+                  {r.attachment_url && (
+                    <a href={r.attachment_url} target="_blank" rel="noopener noreferrer" className="mt-1 text-xs text-primary hover:text-primary-dark inline-flex items-center">
+                      <Paperclip size={12} className="mr-1" /> Attachment
+                    </a>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {hasMore && (
+        <div className="text-center">
+          <Button onClick={() => loadRevisions(page + 1)} variant="outline" isLoading={isLoading}>Load More</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageRevisionsLog;
@@ -0,0 +1,115 @@
+// components/admin/StipendReport.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { NotificationType, StipendReportRow } from '../../types.ts';
+import { getStipendReport } from '../../services/apiService.ts';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../constants.ts';
+import { formatCurrency } from '../../lib/currency.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import Spinner from '../ui/Spinner.tsx';
+import Select from '../ui/Select.tsx';
+import { AlertTriangle } from 'lucide-react';
+
+interface StipendReportProps {
+  refreshKey?: number; // Bump to reload, e.g. after the exchange rates change
+}
+
+type ReportColumn = 'budget' | 'funded' | 'in_escrow' | 'paid_out' | 'refunded';
+
+const REPORT_COLUMNS: { key: ReportColumn; label: string }[] = [
+  { key: 'budget', label: 'Budgeted' },
+  { key: 'funded', label: 'Funded' },
+  { key: 'in_escrow', label: 'In escrow' },
+  { key: 'paid_out', label: 'Paid out' },
+  { key: 'refunded', label: 'Refunded' },
+];
+
+// Stipend totals per project currency, with a grand total converted into one reporting currency.
+const StipendReport: React.FC<StipendReportProps> = ({ refreshKey }) => {
+  const { addNotification } = useNotifications();
+
+  const [reportCurrency, setReportCurrency] = useState(DEFAULT_CURRENCY);
+  const [rows, setRows] = useState<StipendReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await getStipendReport(reportCurrency);
+      if (error) throw error;
+      setRows(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load the stipend report.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportCurrency, addNotification]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport, refreshKey]);
+
+  const missingRates = rows.filter(r => r.rate === null).map(r => r.currency);
+  const convertedTotal = (key: ReportColumn) =>
+    rows.reduce((sum, r) => sum + Number(r[`${key}_converted`] ?? 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Report currency"
+        value={reportCurrency}
+        onChange={(e) => setReportCurrency(e.target.value)}
+        containerClassName="mb-0 max-w-xs"
+      >
+        {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4"><Spinner /></div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No stipend projects yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Currency</th>
+                <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Projects</th>
+                {REPORT_COLUMNS.map(c => (
+                  <th key={c.key} scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{c.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(r => (
+                <tr key={r.currency}>
+                  <td className="px-4 py-2 font-medium text-gray-800">{r.currency}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{r.project_count}</td>
+                  {REPORT_COLUMNS.map(c => (
+                    <td key={c.key} className="px-4 py-2 text-right text-gray-600">{formatCurrency(r[`${c.key}_total`], r.currency)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-4 py-2 font-semibold text-gray-800" colSpan={2}>Total in {reportCurrency}</td>
+                {REPORT_COLUMNS.map(c => (
+                  <td key={c.key} className="px-4 py-2 text-right font-semibold text-gray-800">{formatCurrency(convertedTotal(c.key), reportCurrency)}</td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {missingRates.length > 0 && (
+        <p className="text-xs text-orange-700 flex items-center">
+          <AlertTriangle size={14} className="mr-1" />
+          No rate to {reportCurrency} for {missingRates.join(', ')}; those amounts are left out of the total.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StipendReport;
@@ -135,12 +135,12 @@ const ApplicationForm: React.FC<ApplicationFormProps> = ({ project }) => {
             error={errors.availability?.message}
           />
           <Input
-            label="Proposed Rate (USD, if applicable)"
+            label={`Proposed Rate (${project.currency}, if applicable)`}
             type="number"
             step="0.01"
             {...register('proposed_rate', { valueAsNumber: true })}
             error={errors.proposed_rate?.message}
-            placeholder="e.g., 25 (for $/hr) or 500 (fixed)"
+            placeholder="e.g., 25 (per hour) or 500 (fixed)"
           />
         </div>
         
@@ -0,0 +1,39 @@
+// components/chat/ChatPresenceBar.tsx
+import React from 'react';
+import { ChatPresence } from '../../types.ts';
+import { WifiOff } from 'lucide-react';
+
+interface ChatPresenceBarProps {
+  participants: ChatPresence[]; // Other participants with the chat open, one entry per user
+  isOnline: boolean;
+}
+
+const ChatPresenceBar: React.FC<ChatPresenceBarProps> = ({ participants, isOnline }) => {
+  if (!isOnline) {
+    return (
+      <p className="flex items-center text-xs text-gray-500 mb-2">
+        <WifiOff size={14} className="mr-1" /> You're offline. Online status and typing indicators resume when you reconnect.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mb-2" aria-live="polite">
+      {participants.length === 0 ? (
+        <span className="text-gray-500">No one else has the chat open right now.</span>
+      ) : (
+        <>
+          <span className="text-gray-500">Here now:</span>
+          {participants.map(p => (
+            <span key={p.user_id} className="inline-flex items-center bg-green-50 border border-green-200 text-green-800 px-2 py-0.5 rounded-full">
+              <span className="w-2 h-2 rounded-full bg-green-500 mr-1" aria-hidden="true" />
+              {p.name}
+            </span>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatPresenceBar;
@@ -0,0 +1,129 @@
+// components/chat/MessageBubble.tsx
+import React, { useState } from 'react';
+import { Message } from '../../types.ts';
+import { MESSAGE_EDIT_WINDOW_MINUTES } from '../../constants.ts';
+import Button from '../ui/Button.tsx';
+import Textarea from '../ui/Textarea.tsx';
+import { Edit3, MessageSquare, Paperclip, Trash2 } from 'lucide-react';
+
+interface MessageBubbleProps {
+  message: Message;
+  isOwn: boolean;
+  onOpenThread?: (message: Message) => void; // Omitted for replies, which cannot have threads of their own
+  onEdit?: (message: Message, text: string) => Promise<boolean>; // Resolves true when the edit was saved
+  onDelete?: (message: Message) => Promise<void>;
+}
+
+// Checked when rendering; the database enforces the window, so a stale button only leads to a clear error.
+const isWithinEditWindow = (message: Message) =>
+  Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, onOpenThread, onEdit, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.message_text);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDeleted = !!message.deleted_at;
+  const canChange = isOwn && !isDeleted && !!(onEdit || onDelete) && isWithinEditWindow(message);
+
+  const startEditing = () => {
+    setDraft(message.message_text);
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!onEdit) return;
+    if (draft.trim() === message.message_text) {
+      setIsEditing(false);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      if (await onEdit(message, draft.trim())) setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    const confirmation = message.attachment_url
+      ? 'Delete this message? Participants will see that it was deleted. The attached file is kept for admins, and anyone who already has its link can still open it.'
+      : 'Delete this message? Participants will see that it was deleted.';
+    if (!onDelete || !window.confirm(confirmation)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-xs lg:max-w-md flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+        <div className={`p-3 rounded-lg shadow ${isDeleted ? 'bg-gray-100 text-gray-500 border' : isOwn ? 'bg-primary text-white' : 'bg-white text-gray-800 border'}`}>
+          <p className="text-xs font-semibold mb-0.5 opacity-80">{message.sender_user?.name || 'User'} {isOwn ? '(You)' : ''}</p>
+          {isDeleted ? (
+            <p className="text-sm italic">This message was deleted.</p>
+          ) : isEditing ? (
+            <div className="w-64 max-w-full">
+              <Textarea
+                name={`edit-${message.id}`}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                containerClassName="mb-2"
+                className="text-gray-800"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveEdit(); }
+                  if (e.key === 'Escape') setIsEditing(false);
+                }}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" size="sm" variant="ghost" className={isOwn ? 'text-white hover:bg-primary-dark' : ''} onClick={() => setIsEditing(false)} disabled={isSaving}>Cancel</Button>
+                <Button type="button" size="sm" variant="secondary" onClick={saveEdit} isLoading={isSaving} disabled={!draft.trim() && !message.attachment_url}>Save</Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">{message.message_text}</p>
+          )}
+          {!isDeleted && message.attachment_url && (
+            <a href={message.attachment_url} target="_blank" rel="noopener noreferrer" className={`mt-1 text-xs flex items-center ${isOwn ? 'text-blue-200 hover:text-blue-100' : 'text-primary hover:text-primary-dark'}`}>
+              <Paperclip size={14} className="mr-1"/> View Attachment
+            </a>
+          )}
+          <p className="text-xs opacity-60 mt-1 text-right">
+            {message.edited_at && !isDeleted && (
+              <span className="mr-1" title={`Edited ${new Date(message.edited_at).toLocaleString()}`}>(edited)</span>
+            )}
+            {new Date(message.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 mt-1 text-xs">
+          {onOpenThread && (!isDeleted || message.reply_count > 0) && (
+            <button type="button" onClick={() => onOpenThread(message)} className="text-primary hover:underline inline-flex items-center">
+              <MessageSquare size={12} className="mr-1" />
+              {message.reply_count > 0 ? `${message.reply_count} ${message.reply_count === 1 ? 'reply' : 'replies'}` : 'Reply'}
+            </button>
+          )}
+          {canChange && !isEditing && (
+            <>
+              {onEdit && (
+                <button type="button" onClick={startEditing} className="text-gray-500 hover:text-gray-700 inline-flex items-center" disabled={isSaving}>
+                  <Edit3 size={12} className="mr-1" /> Edit
+                </button>
+              )}
+              {onDelete && (
+                <button type="button" onClick={remove} className="text-red-600 hover:text-red-800 inline-flex items-center" disabled={isSaving}>
+                  <Trash2 size={12} className="mr-1" /> Delete
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageBubble;
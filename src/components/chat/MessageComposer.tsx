@@ -0,0 +1,48 @@
+// components/chat/MessageComposer.tsx
+import React, { useState } from 'react';
+import Button from '../ui/Button.tsx';
+import Textarea from '../ui/Textarea.tsx';
+import { Paperclip, Send } from 'lucide-react';
+
+interface MessageComposerProps {
+  id: string; // Distinguishes the file inputs of the main chat and the thread panel
+  onSend: (text: string, attachment: File | null) => Promise<boolean>; // Resolves true when the message was sent
+  onTyping?: () => void;
+  placeholder?: string;
+  rows?: number;
+}
+
+const MessageComposer: React.FC<MessageComposerProps> = ({ id, onSend, onTyping, placeholder = 'Type your message...', rows = 3 }) => {
+  const [newMessage, setNewMessage] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [isSendingMessage, setIsSendingMessage] = useState(false);
+
+  const handleSendMessage = async () => {
+    if ((!newMessage.trim() && !attachment) || isSendingMessage) return;
+    setIsSendingMessage(true);
+    try {
+      if (await onSend(newMessage.trim(), attachment)) {
+        setNewMessage('');
+        setAttachment(null);
+      }
+    } finally {
+      setIsSendingMessage(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <Textarea name={`${id}-message`} value={newMessage} onChange={(e) => { setNewMessage(e.target.value); if (e.target.value.trim()) onTyping?.(); }} placeholder={placeholder} rows={rows} containerClassName="mb-2" onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); } }}/>
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 min-w-0">
+          <label htmlFor={`${id}-file-upload`} className="cursor-pointer text-gray-500 hover:text-primary"><Paperclip size={22} /></label>
+          <input id={`${id}-file-upload`} type="file" className="hidden" onChange={(e) => setAttachment(e.target.files ? e.target.files[0] : null)}/>
+          {attachment && <span className="text-sm text-gray-700 truncate">{attachment.name} <button onClick={() => setAttachment(null)} className="text-red-600 hover:text-red-800">×</button></span>}
+        </div>
+        <Button onClick={handleSendMessage} disabled={(!newMessage.trim() && !attachment) || isSendingMessage} leftIcon={<Send size={16}/>} isLoading={isSendingMessage}>Send</Button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageComposer;
@@ -0,0 +1,365 @@
+// components/chat/ProjectChat.tsx
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { ChatPresence, Message, MessageRead, NotificationType, TypingSignal, UserProfile } from '../../types.ts';
+import { deleteMessage, editMessage, getMessageById, getMessageReadState, getThreadReplies, markProjectMessagesRead, sendMessage, uploadFile } from '../../services/apiService.ts';
+import { supabase } from '../../lib/supabaseClient.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { useProjectMessages } from '../../hooks/useProjectMessages.ts';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus.ts';
+import { MESSAGE_EDIT_WINDOW_MINUTES, TYPING_BROADCAST_INTERVAL_MS, TYPING_INDICATOR_TIMEOUT_MS } from '../../constants.ts';
+import VirtualMessageList from './VirtualMessageList.tsx';
+import MessageBubble from './MessageBubble.tsx';
+import MessageComposer from './MessageComposer.tsx';
+import ThreadPanel from './ThreadPanel.tsx';
+import ChatPresenceBar from './ChatPresenceBar.tsx';
+import TypingIndicator from './TypingIndicator.tsx';
+
+interface ProjectChatProps {
+  projectId: string;
+  currentUser?: Pick<UserProfile, 'id' | 'name' | 'profile_photo_url'> | null;
+}
+
+const ProjectChat: React.FC<ProjectChatProps> = ({ projectId, currentUser }) => {
+  const { addNotification } = useNotifications();
+  const isOnline = useOnlineStatus();
+  const currentUserId = currentUser?.id;
+  const currentUserName = currentUser?.name || 'User';
+  const currentUserPhoto = currentUser?.profile_photo_url;
+  const chat = useProjectMessages(projectId, true);
+  const { receiveMessage, updateMessage } = chat;
+
+  // The open thread lives in ?thread=<message id>, so reply notifications can link straight to it.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const threadId = searchParams.get('thread');
+  const [threadParent, setThreadParent] = useState<Message | null>(null);
+  const [threadReplies, setThreadReplies] = useState<Message[]>([]);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const threadIdRef = useRef(threadId);
+  threadIdRef.current = threadId;
+
+  // The read position from before this visit places the "new messages" divider; undefined while it loads.
+  // Reading is only recorded once it has loaded, so the divider does not disappear on arrival.
+  const [readMarker, setReadMarker] = useState<MessageRead | null | undefined>(undefined);
+  const isAtLatestRef = useRef(false);
+  const activityRef = useRef(0); // Bumped for every top-level message seen arriving; replies are not tracked as read
+  const markedActivityRef = useRef(-1);
+
+  // Presence and typing travel on the same channel as the message changes. They are best effort:
+  // while the browser is offline the last known state is hidden rather than shown stale.
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [presentUsers, setPresentUsers] = useState<ChatPresence[]>([]);
+  const [typingUsers, setTypingUsers] = useState<Record<string, string>>({}); // user_id -> name
+  const lastTypingSentRef = useRef(0);
+
+  const openThread = useCallback((message: Message) => {
+    setThreadParent(message);
+    setSearchParams(prev => {
+      prev.set('thread', message.id);
+      return prev;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const closeThread = useCallback(() => {
+    setSearchParams(prev => {
+      prev.delete('thread');
+      return prev;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    setThreadReplies([]);
+    if (!threadId) {
+      setThreadParent(null);
+      return;
+    }
+    let cancelled = false;
+    const loadThread = async () => {
+      setIsLoadingThread(true);
+      try {
+        const [parentResult, repliesResult] = await Promise.all([getMessageById(threadId), getThreadReplies(threadId)]);
+        if (parentResult.error) throw parentResult.error;
+        if (repliesResult.error) throw repliesResult.error;
+        if (cancelled) return;
+        if (parentResult.data.project_id !== projectId || parentResult.data.parent_message_id) throw new Error('This thread does not belong to the project chat.');
+        setThreadParent(parentResult.data);
+        setThreadReplies(repliesResult.data || []);
+      } catch (err: any) {
+        if (cancelled) return;
+        addNotification(err.message || 'Failed to load the thread.', NotificationType.WARNING);
+        closeThread();
+      } finally {
+        if (!cancelled) setIsLoadingThread(false);
+      }
+    };
+    loadThread();
+    return () => { cancelled = true; };
+  }, [threadId, projectId, addNotification, closeThread]);
+
+  // Applies a changed row wherever it is shown: the main list, the open thread's parent or one of its replies.
+  const applyMessageUpdate = useCallback((message: Message) => {
+    updateMessage(message);
+    const merge = (m: Message) => ({ ...m, ...message, sender_user: message.sender_user || m.sender_user });
+    setThreadParent(prev => (prev?.id === message.id ? merge(prev) : prev));
+    setThreadReplies(prev => (prev.some(r => r.id === message.id) ? prev.map(r => (r.id === message.id ? merge(r) : r)) : prev));
+  }, [updateMessage]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReadMarker(undefined);
+    const loadReadMarker = async () => {
+      const { data, error } = await getMessageReadState(projectId);
+      if (error) console.warn(`Warning loading chat read state: ${error.message}`);
+      if (!cancelled) setReadMarker(data ?? null);
+    };
+    loadReadMarker();
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const markRead = useCallback(async () => {
+    if (readMarker === undefined || !isAtLatestRef.current || document.visibilityState !== 'visible') return;
+    if (markedActivityRef.current === activityRef.current) return;
+    markedActivityRef.current = activityRef.current;
+    const { error } = await markProjectMessagesRead(projectId);
+    if (error) {
+      console.warn(`Warning marking chat as read: ${error.message}`);
+      markedActivityRef.current = -1;
+    }
+  }, [projectId, readMarker]);
+
+  const handleAtLatestChange = useCallback((atLatest: boolean) => {
+    isAtLatestRef.current = atLatest;
+    if (atLatest && chat.messages.length > 0) markRead();
+  }, [markRead, chat.messages.length]);
+
+  useEffect(() => {
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [markRead]);
+
+  // First message from someone else after the previous visit's read position. Without a read position
+  // (first visit) the whole history is new, and no divider is shown.
+  const firstUnreadId = useMemo(() => {
+    if (!readMarker || !currentUserId) return null;
+    const lastReadAt = new Date(readMarker.last_read_at).getTime();
+    return chat.messages.find(m => m.sender_user_id !== currentUserId && new Date(m.created_at).getTime() > lastReadAt)?.id ?? null;
+  }, [readMarker, currentUserId, chat.messages]);
+
+  useEffect(() => {
+    const channel = supabase.channel(`project-chat-${projectId}`, { config: { presence: { key: currentUserId ?? '' } } });
+    channelRef.current = channel;
+    const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const setTyping = (userId: string, name: string, isTyping: boolean) => {
+      clearTimeout(typingTimers.get(userId));
+      typingTimers.delete(userId);
+      if (isTyping) {
+        typingTimers.set(userId, setTimeout(() => setTyping(userId, name, false), TYPING_INDICATOR_TIMEOUT_MS));
+      }
+      setTypingUsers(prev => {
+        if (!isTyping && !(userId in prev)) return prev;
+        const next = { ...prev };
+        if (isTyping) next[userId] = name; else delete next[userId];
+        return next;
+      });
+    };
+
+    channel
+      .on<Message>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `project_id=eq.${projectId}` },
+        async (payload) => {
+          const { data: senderData } = await supabase.from('users').select('id, name, profile_photo_url').eq('id', payload.new.sender_user_id).single();
+          const message = { ...payload.new, sender_user: senderData || undefined } as Message;
+          setTyping(message.sender_user_id, message.sender_user?.name || 'User', false);
+          if (!message.parent_message_id) {
+            activityRef.current += 1;
+            receiveMessage(message);
+          } else if (message.parent_message_id === threadIdRef.current) {
+            setThreadReplies(prev => (prev.some(r => r.id === message.id) ? prev : [...prev, message]));
+          }
+        }
+      )
+      // Edits, deletes and reply counts (kept on the parent row) all arrive as UPDATEs.
+      .on<Message>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `project_id=eq.${projectId}` },
+        (payload) => applyMessageUpdate(payload.new)
+      )
+      .on('presence', { event: 'sync' }, () => {
+        // One entry per open tab; show each other participant once.
+        const byUser = new Map<string, ChatPresence>();
+        Object.values(channel.presenceState<ChatPresence>()).flat().forEach(p => {
+          if (p.user_id !== currentUserId) byUser.set(p.user_id, p);
+        });
+        setPresentUsers(Array.from(byUser.values()));
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const signal = payload as TypingSignal;
+        if (signal.user_id !== currentUserId) setTyping(signal.user_id, signal.name, signal.is_typing);
+      })
+      .subscribe((status, err) => {
+        setIsSubscribed(status === 'SUBSCRIBED');
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Error subscribing to chat:`, err);
+          addNotification('Realtime chat connection failed.', NotificationType.WARNING, 10000);
+        }
+      });
+    return () => {
+      typingTimers.forEach(timer => clearTimeout(timer));
+      channelRef.current = null;
+      setIsSubscribed(false);
+      setPresentUsers([]);
+      setTypingUsers({});
+      supabase.removeChannel(channel);
+    };
+  }, [projectId, currentUserId, receiveMessage, applyMessageUpdate, addNotification]);
+
+  // Announce this tab once the channel is joined, and withdraw it while offline.
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel || !isSubscribed || !currentUserId) return;
+    if (isOnline) {
+      const presence: ChatPresence = { user_id: currentUserId, name: currentUserName, profile_photo_url: currentUserPhoto, online_at: new Date().toISOString() };
+      channel.track(presence);
+    } else {
+      channel.untrack();
+      setTypingUsers({});
+    }
+  }, [isOnline, isSubscribed, currentUserId, currentUserName, currentUserPhoto]);
+
+  const sendTypingSignal = useCallback((isTyping: boolean) => {
+    const channel = channelRef.current;
+    if (!channel || !isSubscribed || !isOnline || !currentUserId) return;
+    const now = Date.now();
+    if (isTyping && now - lastTypingSentRef.current < TYPING_BROADCAST_INTERVAL_MS) return;
+    lastTypingSentRef.current = isTyping ? now : 0;
+    const signal: TypingSignal = { user_id: currentUserId, name: currentUserName, is_typing: isTyping };
+    channel.send({ type: 'broadcast', event: 'typing', payload: signal });
+  }, [isSubscribed, isOnline, currentUserId, currentUserName]);
+  const handleTyping = useCallback(() => sendTypingSignal(true), [sendTypingSignal]);
+
+  const postMessage = async (text: string, attachment: File | null, parentMessageId?: string): Promise<Message | null> => {
+    if (!currentUserId) return null;
+    try {
+      let attachmentUrl: string | undefined;
+      if (attachment) {
+        const { publicUrl, error: uploadError } = await uploadFile(attachment, 'project-chat-attachments');
+        if (uploadError || !publicUrl) throw new Error(uploadError?.message || 'Failed to upload attachment');
+        attachmentUrl = publicUrl;
+      }
+      const { error, data } = await sendMessage(projectId, text, attachmentUrl, parentMessageId);
+      if (error) throw error;
+      return data;
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to send message.', NotificationType.ERROR);
+      return null;
+    }
+  };
+
+  const handleSendMessage = async (text: string, attachment: File | null) => {
+    const message = await postMessage(text, attachment);
+    if (!message) return false;
+    sendTypingSignal(false);
+    // Sending returns the reader to the latest messages if they had paged away from them.
+    if (chat.hasNewer) chat.jumpToLatest(); else receiveMessage(message);
+    return true;
+  };
+
+  const handleSendReply = async (text: string, attachment: File | null) => {
+    if (!threadParent) return false;
+    const reply = await postMessage(text, attachment, threadParent.id);
+    if (!reply) return false;
+    sendTypingSignal(false);
+    setThreadReplies(prev => (prev.some(r => r.id === reply.id) ? prev : [...prev, reply]));
+    // Shown straight away; the realtime UPDATE of the parent brings the authoritative count.
+    const counted = { ...threadParent, reply_count: threadParent.reply_count + 1, last_reply_at: reply.created_at };
+    applyMessageUpdate(counted);
+    return true;
+  };
+
+  const handleEditMessage = useCallback(async (message: Message, text: string) => {
+    try {
+      const { data, error } = await editMessage(message.id, text);
+      if (error) throw error;
+      if (!data?.length) throw new Error(`Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.`);
+      applyMessageUpdate(data[0]);
+      return true;
+    } catch (err: any) {
+      addNotification(`Failed to edit message: ${err.message}`, NotificationType.ERROR);
+      return false;
+    }
+  }, [applyMessageUpdate, addNotification]);
+
+  const handleDeleteMessage = useCallback(async (message: Message) => {
+    try {
+      const { data, error } = await deleteMessage(message.id);
+      if (error) throw error;
+      if (!data?.length) throw new Error(`Messages can only be deleted within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.`);
+      applyMessageUpdate(data[0]);
+    } catch (err: any) {
+      addNotification(`Failed to delete message: ${err.message}`, NotificationType.ERROR);
+    }
+  }, [applyMessageUpdate, addNotification]);
+
+  const renderMessage = useCallback(
+    (message: Message) => (
+      <>
+        {message.id === firstUnreadId && (
+          <div className="flex items-center mb-3 text-xs font-semibold text-red-600" role="separator">
+            <span className="flex-grow border-t border-red-300" />
+            <span className="px-2">New messages</span>
+            <span className="flex-grow border-t border-red-300" />
+          </div>
+        )}
+        <MessageBubble message={message} isOwn={message.sender_user_id === currentUserId} onOpenThread={openThread} onEdit={handleEditMessage} onDelete={handleDeleteMessage} />
+      </>
+    ),
+    [currentUserId, openThread, firstUnreadId, handleEditMessage, handleDeleteMessage]
+  );
+
+  const renderThreadMessage = useCallback(
+    (message: Message) => <MessageBubble message={message} isOwn={message.sender_user_id === currentUserId} onEdit={handleEditMessage} onDelete={handleDeleteMessage} />,
+    [currentUserId, handleEditMessage, handleDeleteMessage]
+  );
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      <div className="flex-1 min-w-0">
+        <ChatPresenceBar participants={presentUsers} isOnline={isOnline} />
+        <VirtualMessageList
+          messages={chat.messages}
+          renderMessage={renderMessage}
+          hasOlder={chat.hasOlder}
+          hasNewer={chat.hasNewer}
+          isLoading={chat.isLoading}
+          isLoadingOlder={chat.isLoadingOlder}
+          isLoadingNewer={chat.isLoadingNewer}
+          onLoadOlder={chat.loadOlder}
+          onLoadNewer={chat.loadNewer}
+          onJumpToLatest={chat.jumpToLatest}
+          scrollToMessageId={firstUnreadId}
+          onAtLatestChange={handleAtLatestChange}
+        />
+        <TypingIndicator names={isOnline ? Object.values(typingUsers) : []} />
+        <MessageComposer id="chat" onSend={handleSendMessage} onTyping={handleTyping} />
+      </div>
+      {threadId && threadParent && (
+        <ThreadPanel
+          parent={threadParent}
+          replies={threadReplies}
+          isLoading={isLoadingThread}
+          renderMessage={renderThreadMessage}
+          onReply={handleSendReply}
+          onTyping={handleTyping}
+          onClose={closeThread}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProjectChat;
@@ -0,0 +1,51 @@
+// components/chat/ThreadPanel.tsx
+// Replies are loaded in full: threads stay short compared to the main chat, so they are not paged or virtualized.
+import React, { useEffect, useRef } from 'react';
+import { Message } from '../../types.ts';
+import MessageComposer from './MessageComposer.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import { X } from 'lucide-react';
+
+interface ThreadPanelProps {
+  parent: Message;
+  replies: Message[];
+  isLoading: boolean;
+  renderMessage: (message: Message) => React.ReactNode; // Renders both the parent and the replies, without thread links
+  onReply: (text: string, attachment: File | null) => Promise<boolean>;
+  onTyping?: () => void;
+  onClose: () => void;
+}
+
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ parent, replies, isLoading, renderMessage, onReply, onTyping, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [replies.length]);
+
+  return (
+    <aside className="md:w-96 flex-shrink-0 border rounded-md p-4 bg-white flex flex-col" aria-label="Thread">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-700">Thread</h3>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close thread"><X size={18} /></button>
+      </div>
+      <div ref={scrollRef} className="h-72 overflow-y-auto space-y-3 pr-1">
+        {renderMessage(parent)}
+        <p className="text-xs text-gray-500 border-b pb-1">
+          {parent.reply_count} {parent.reply_count === 1 ? 'reply' : 'replies'}
+        </p>
+        {isLoading && <div className="flex justify-center py-4"><Spinner size="sm" /></div>}
+        {replies.map(reply => (
+          <React.Fragment key={reply.id}>{renderMessage(reply)}</React.Fragment>
+        ))}
+      </div>
+      {parent.deleted_at ? (
+        <p className="mt-4 text-sm text-gray-500 italic">This message was deleted, so the thread is closed to new replies.</p>
+      ) : (
+        <MessageComposer id={`thread-${parent.id}`} onSend={onReply} onTyping={onTyping} placeholder="Reply in thread..." rows={2} />
+      )}
+    </aside>
+  );
+};
+
+export default ThreadPanel;
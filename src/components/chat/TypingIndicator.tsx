@@ -0,0 +1,21 @@
+// components/chat/TypingIndicator.tsx
+import React from 'react';
+
+interface TypingIndicatorProps {
+  names: string[];
+}
+
+const describeTypists = (names: string[]): string => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+};
+
+// Keeps its height when nobody is typing, so the composer below does not jump.
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ names }) => (
+  <p className="h-4 -mt-3 text-xs italic text-gray-500" aria-live="polite">
+    {names.length > 0 && describeTypists(names)}
+  </p>
+);
+
+export default TypingIndicator;
@@ -0,0 +1,24 @@
+// components/chat/UnreadBadge.tsx
+import React from 'react';
+import { MessageSquare } from 'lucide-react';
+
+interface UnreadBadgeProps {
+  count?: number;
+  className?: string;
+}
+
+const UnreadBadge: React.FC<UnreadBadgeProps> = ({ count, className = '' }) => {
+  if (!count) return null;
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full bg-red-600 text-white text-xs font-semibold ${className}`}
+      title={`${count} unread chat ${count === 1 ? 'message' : 'messages'}`}
+    >
+      <MessageSquare size={12} className="mr-1" aria-hidden="true" />
+      {count > 99 ? '99+' : count}
+      <span className="sr-only"> unread chat messages</span>
+    </span>
+  );
+};
+
+export default UnreadBadge;
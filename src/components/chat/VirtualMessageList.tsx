@@ -0,0 +1,203 @@
+// components/chat/VirtualMessageList.tsx
+// Only the rows near the viewport are mounted. Row heights are measured as they render (estimated until then),
+// and the first visible message is kept in place whenever rows above it change, e.g. when an older page loads.
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Message } from '../../types.ts';
+import Spinner from '../ui/Spinner.tsx';
+import { ArrowDown } from 'lucide-react';
+
+interface VirtualMessageListProps {
+  messages: Message[]; // Oldest first
+  renderMessage: (message: Message) => React.ReactNode;
+  hasOlder: boolean;
+  hasNewer: boolean;
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  isLoadingNewer: boolean;
+  onLoadOlder: () => void;
+  onLoadNewer: () => void;
+  onJumpToLatest: () => void;
+  scrollToMessageId?: string | null; // Brought to the top of the viewport once, when it first appears
+  onAtLatestChange?: (atLatest: boolean) => void; // Whether the newest message is on screen
+}
+
+const ESTIMATED_ROW_HEIGHT = 96;
+const LIST_PADDING = 16; // Matches p-4 on the scroll container
+const OVERSCAN_PX = 400;
+const EDGE_THRESHOLD_PX = 200;
+const BOTTOM_SLACK_PX = 40;
+
+interface MeasuredRowProps {
+  id: string;
+  top: number;
+  observer: ResizeObserver;
+  children: React.ReactNode;
+}
+
+const MeasuredRow: React.FC<MeasuredRowProps> = ({ id, top, observer, children }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const el = rowRef.current;
+    if (!el) return;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  }, [observer]);
+  return (
+    <div ref={rowRef} data-message-id={id} className="absolute inset-x-0 pb-3" style={{ top }}>
+      {children}
+    </div>
+  );
+};
+
+const VirtualMessageList: React.FC<VirtualMessageListProps> = ({
+  messages, renderMessage, hasOlder, hasNewer, isLoading, isLoadingOlder, isLoadingNewer, onLoadOlder, onLoadNewer, onJumpToLatest,
+  scrollToMessageId, onAtLatestChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [isNearBottom, setIsNearBottom] = useState(true);
+
+  // Follow new messages while the reader is at the latest one; otherwise hold the first visible message in place.
+  const stickToBottomRef = useRef(true);
+  const anchorRef = useRef<{ id: string; delta: number } | null>(null);
+  const scrolledToIdRef = useRef<string | null>(null);
+  const onAtLatestChangeRef = useRef(onAtLatestChange);
+  onAtLatestChangeRef.current = onAtLatestChange;
+
+  const [rowObserver] = useState(() => new ResizeObserver(entries => {
+    let changed = false;
+    entries.forEach(entry => {
+      const el = entry.target as HTMLElement;
+      const id = el.dataset.messageId;
+      if (!id || heightsRef.current.get(id) === el.offsetHeight) return;
+      heightsRef.current.set(id, el.offsetHeight);
+      changed = true;
+    });
+    if (changed) setMeasureVersion(v => v + 1);
+  }));
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  // offsets[i] is the top of row i; offsets[messages.length] is the total height.
+  const offsets = useMemo(() => {
+    const result = [0];
+    messages.forEach((m, i) => result.push(result[i] + (heightsRef.current.get(m.id) ?? ESTIMATED_ROW_HEIGHT)));
+    return result;
+    // measureVersion stands in for the heights map, which is mutated in place.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, measureVersion]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+  const totalHeight = offsets[messages.length];
+
+  // First row whose bottom edge is below `y`.
+  const rowAt = (y: number) => {
+    let low = 0;
+    let high = messages.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] > y) high = mid; else low = mid + 1;
+    }
+    return Math.max(0, low);
+  };
+  const contentTop = scrollTop - LIST_PADDING;
+  const firstIndex = messages.length ? rowAt(contentTop - OVERSCAN_PX) : 0;
+  const lastIndex = messages.length ? rowAt(contentTop + viewportHeight + OVERSCAN_PX) : -1;
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    resizeObserver.observe(el);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    if (scrollToMessageId && scrolledToIdRef.current !== scrollToMessageId && messages.some(m => m.id === scrollToMessageId)) {
+      scrolledToIdRef.current = scrollToMessageId;
+      stickToBottomRef.current = false;
+      anchorRef.current = { id: scrollToMessageId, delta: -LIST_PADDING };
+    }
+    if (stickToBottomRef.current && !hasNewer) {
+      el.scrollTop = el.scrollHeight;
+    } else {
+      const anchor = anchorRef.current;
+      const index = anchor ? messages.findIndex(m => m.id === anchor.id) : -1;
+      if (anchor && index >= 0) el.scrollTop = offsets[index] - anchor.delta;
+    }
+    // Covers histories too short to scroll, which never fire a scroll event.
+    onAtLatestChangeRef.current?.(!hasNewer && el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_SLACK_PX);
+  }, [offsets, messages, hasNewer, scrollToMessageId]);
+
+  // Keep paging back while the history does not fill the viewport, since no scroll event will ask for it.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (el && hasOlder && !isLoadingOlder && !isLoading && el.scrollHeight <= el.clientHeight) onLoadOlder();
+  }, [offsets, hasOlder, isLoadingOlder, isLoading, onLoadOlder]);
+
+  const handleScroll = () => {
+    const el = containerRef.current;
+    if (!el) return;
+    const distanceFromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
+    const nearBottom = distanceFromBottom < BOTTOM_SLACK_PX;
+    stickToBottomRef.current = nearBottom && !hasNewer;
+    onAtLatestChangeRef.current?.(stickToBottomRef.current);
+    setIsNearBottom(nearBottom);
+    setScrollTop(el.scrollTop);
+
+    const currentOffsets = offsetsRef.current;
+    if (messages.length) {
+      let index = 0;
+      while (index < messages.length - 1 && currentOffsets[index + 1] <= el.scrollTop - LIST_PADDING) index++;
+      anchorRef.current = { id: messages[index].id, delta: currentOffsets[index] - el.scrollTop };
+    }
+
+    if (el.scrollTop < EDGE_THRESHOLD_PX && hasOlder && !isLoadingOlder) onLoadOlder();
+    if (distanceFromBottom < EDGE_THRESHOLD_PX && hasNewer && !isLoadingNewer) onLoadNewer();
+  };
+
+  const handleJumpToLatest = () => {
+    stickToBottomRef.current = true;
+    if (hasNewer) {
+      onJumpToLatest();
+    } else if (containerRef.current) {
+      containerRef.current.scrollTo({ top: containerRef.current.scrollHeight, behavior: 'smooth' });
+    }
+  };
+
+  return (
+    <div className="relative h-96 mb-4 border rounded-md bg-gray-50">
+      <div ref={containerRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4" aria-live="polite">
+        {isLoading && messages.length === 0 && <div className="flex justify-center py-8"><Spinner /></div>}
+        {!isLoading && messages.length === 0 && <p className="text-gray-500 italic text-center py-8">No messages yet.</p>}
+        <div className="relative" style={{ height: totalHeight }}>
+          {messages.slice(firstIndex, lastIndex + 1).map((message, i) => (
+            <MeasuredRow key={message.id} id={message.id} top={offsets[firstIndex + i]} observer={rowObserver}>
+              {renderMessage(message)}
+            </MeasuredRow>
+          ))}
+        </div>
+      </div>
+      {(isLoadingOlder || isLoadingNewer) && (
+        <div className={`absolute inset-x-0 flex justify-center pointer-events-none ${isLoadingOlder ? 'top-2' : 'bottom-2'}`}>
+          <Spinner size="sm" />
+        </div>
+      )}
+      {(hasNewer || !isNearBottom) && messages.length > 0 && (
+        <button
+          type="button"
+          onClick={handleJumpToLatest}
+          className="absolute bottom-3 right-3 inline-flex items-center px-3 py-1.5 text-xs font-medium rounded-full shadow bg-white border text-primary hover:bg-gray-100"
+        >
+          <ArrowDown size={14} className="mr-1" /> Jump to latest
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VirtualMessageList;
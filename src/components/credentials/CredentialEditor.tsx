@@ -0,0 +1,83 @@
+// components/credentials/CredentialEditor.tsx
+import React, { useRef } from 'react';
+import { SubmitHandler, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Credential, CredentialInput, CredentialKind, CredentialSchema } from '../../types.ts';
+import { CREDENTIAL_KIND_LABELS } from '../../constants.ts';
+import Input from '../ui/Input.tsx';
+import Select from '../ui/Select.tsx';
+import Textarea from '../ui/Textarea.tsx';
+import Button from '../ui/Button.tsx';
+import { FileText, Save } from 'lucide-react';
+
+interface CredentialEditorProps {
+  draft?: Credential; // Set when editing; the kind of an existing draft cannot change
+  defaultKind: CredentialKind;
+  availableKinds: CredentialKind[]; // Kinds the contributor does not have yet
+  buildTemplate: (kind: CredentialKind) => CredentialInput;
+  onSave: (credential: CredentialInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CredentialEditor: React.FC<CredentialEditorProps> = ({ draft, defaultKind, availableKinds, buildTemplate, onSave, onCancel }) => {
+  const { register, handleSubmit, getValues, setValue, reset, formState: { errors, isSubmitting, dirtyFields } } = useForm<CredentialInput>({
+    resolver: zodResolver(CredentialSchema),
+    defaultValues: draft ? { kind: draft.kind, title: draft.title, body: draft.body } : buildTemplate(defaultKind),
+  });
+
+  // The text is written for one kind, so switching kinds swaps in the other template; edited text is only replaced on confirmation.
+  const kindRef = useRef(getValues('kind'));
+  const handleKindChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const kind = e.target.value as CredentialKind;
+    const isEdited = dirtyFields.title || dirtyFields.body;
+    if (isEdited && !window.confirm(`Switch to ${CREDENTIAL_KIND_LABELS[kind]}? The title and text will be replaced with its template.`)) {
+      setValue('kind', kindRef.current);
+      return;
+    }
+    kindRef.current = kind;
+    reset(buildTemplate(kind));
+  };
+
+  const fillFromTemplate = () => {
+    if (!window.confirm('Replace the title and text with the template? Your changes will be lost.')) return;
+    reset(buildTemplate(getValues('kind')));
+  };
+
+  const submit: SubmitHandler<CredentialInput> = async (data) => {
+    try {
+      await onSave(data);
+    } catch {
+      // Already reported by the caller; keep the editor open.
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      {!draft && (
+        <Select label="Type" {...register('kind', { onChange: handleKindChange })} containerClassName="mb-2">
+          {availableKinds.map(kind => <option key={kind} value={kind}>{CREDENTIAL_KIND_LABELS[kind]}</option>)}
+        </Select>
+      )}
+      <Input label="Title" {...register('title')} error={errors.title?.message} maxLength={200} containerClassName="mb-2" />
+      <Textarea
+        label="Text"
+        {...register('body')}
+        error={errors.body?.message}
+        maxLength={10000}
+        rows={14}
+        className="font-serif"
+        containerClassName="mb-2"
+      />
+      <p className="text-xs text-gray-500 mb-3">Replace the bracketed parts before signing. The text cannot be changed once signed.</p>
+      <div className="flex justify-between">
+        <Button type="button" size="sm" variant="ghost" onClick={fillFromTemplate} disabled={isSubmitting} leftIcon={<FileText size={14}/>}>Fill from template</Button>
+        <div className="flex space-x-2">
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSubmitting}>Cancel</Button>
+          <Button type="submit" size="sm" variant="primary" isLoading={isSubmitting} leftIcon={<Save size={14}/>}>Save Draft</Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default CredentialEditor;
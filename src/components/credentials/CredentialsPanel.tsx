@@ -0,0 +1,252 @@
+// components/credentials/CredentialsPanel.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CompensationModel, Credential, CredentialInput, CredentialKind, CredentialStatus, NotificationType, Project, UserProfile } from '../../types.ts';
+import { getCredentialsForProject, createCredentialDraft, updateCredentialDraft, deleteCredentialDraft, signCredential, revokeCredential } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { CREDENTIAL_KIND_LABELS } from '../../constants.ts';
+import { buildCredentialDraft } from '../../lib/credentials.ts';
+import { downloadCredentialPdf } from '../../lib/pdfDocuments.ts';
+import CredentialEditor from './CredentialEditor.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import Input from '../ui/Input.tsx';
+import { Ban, Download, Edit3, FilePlus, PenTool, Trash2 } from 'lucide-react';
+
+interface CredentialsPanelProps {
+  project: Project;
+  isOwner: boolean; // Drafts, signs and revokes; contributors only see and download their signed credentials
+  contributors: Pick<UserProfile, 'id' | 'name'>[]; // Accepted contributors, for the owner
+}
+
+const STATUS_STYLES: Record<CredentialStatus, string> = {
+  [CredentialStatus.DRAFT]: 'bg-gray-100 text-gray-700',
+  [CredentialStatus.SIGNED]: 'bg-green-100 text-green-800',
+  [CredentialStatus.REVOKED]: 'bg-red-100 text-red-800',
+};
+
+const ALL_KINDS = [CredentialKind.RECOMMENDATION_LETTER, CredentialKind.CERTIFICATE];
+
+// What the project promised decides which kind is suggested first.
+const defaultKindFor = (model: CompensationModel) =>
+  model === CompensationModel.CO_AUTHORSHIP ? CredentialKind.CERTIFICATE : CredentialKind.RECOMMENDATION_LETTER;
+
+// Editor target: a contributor to start a new draft for, or an existing draft.
+type EditorState = { contributorId: string; draft?: Credential } | null;
+
+const CredentialsPanel: React.FC<CredentialsPanelProps> = ({ project, isOwner, contributors }) => {
+  const { addNotification } = useNotifications();
+
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [signingId, setSigningId] = useState<string | null>(null);
+  const [signedName, setSignedName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadCredentials = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await getCredentialsForProject(project.id);
+      if (error) throw error;
+      setCredentials(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load certificates and letters.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [project.id, addNotification]);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [loadCredentials]);
+
+  // Signing and revoking return the bare row; keep the joined project and user details already loaded.
+  const mergeCredential = (updated: Credential) =>
+    setCredentials(prev => prev.some(c => c.id === updated.id)
+      ? prev.map(c => (c.id === updated.id ? { ...c, ...updated } : c))
+      : [...prev, updated]);
+
+  const handleSaveDraft = async (contributorId: string, input: CredentialInput, draft?: Credential) => {
+    try {
+      const { data, error } = draft
+        ? await updateCredentialDraft(draft.id, input)
+        : await createCredentialDraft(project.id, contributorId, input);
+      if (error) throw error;
+      if (data) mergeCredential(data);
+      setEditor(null);
+      addNotification('Draft saved.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to save draft: ${err.message}`, NotificationType.ERROR);
+      throw err;
+    }
+  };
+
+  const handleDeleteDraft = async (credential: Credential) => {
+    if (!window.confirm('Delete this draft?')) return;
+    setBusyId(credential.id);
+    try {
+      const { error } = await deleteCredentialDraft(credential.id);
+      if (error) throw error;
+      setCredentials(prev => prev.filter(c => c.id !== credential.id));
+    } catch (err: any) {
+      addNotification(`Failed to delete draft: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSign = async (e: React.FormEvent, credential: Credential) => {
+    e.preventDefault();
+    setBusyId(credential.id);
+    try {
+      const { data, error } = await signCredential(credential.id, signedName.trim());
+      if (error) throw error;
+      if (data) mergeCredential(data);
+      setSigningId(null);
+      setSignedName('');
+      addNotification('Signed. The contributor can now download it.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to sign: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (credential: Credential) => {
+    if (!window.confirm('Revoke this document? Its verification code will report it as revoked. This cannot be undone.')) return;
+    setBusyId(credential.id);
+    try {
+      const { data, error } = await revokeCredential(credential.id);
+      if (error) throw error;
+      if (data) mergeCredential(data);
+      addNotification('Revoked.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to revoke: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (credential: Credential) => {
+    setBusyId(credential.id);
+    try {
+      await downloadCredentialPdf(credential);
+    } catch (err: any) {
+      addNotification(`Failed to download: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderCredential = (credential: Credential) => (
+    <div key={credential.id} className="py-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-gray-800">{credential.title}</p>
+          <p className="text-xs text-gray-500">
+            {CREDENTIAL_KIND_LABELS[credential.kind]}
+            <span className={`ml-2 px-1.5 py-0.5 rounded ${STATUS_STYLES[credential.status]}`}>{credential.status}</span>
+            {credential.verification_code && (
+              <> · Code <Link to={`/verify/${credential.verification_code}`} className="font-mono text-primary hover:underline">{credential.verification_code}</Link></>
+            )}
+            {credential.signed_at && ` · Signed ${new Date(credential.signed_at).toLocaleDateString()}`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {credential.status === CredentialStatus.SIGNED && (
+            <Button size="sm" variant="outline" onClick={() => handleDownload(credential)} isLoading={busyId === credential.id} leftIcon={<Download size={14}/>}>PDF</Button>
+          )}
+          {isOwner && credential.status === CredentialStatus.DRAFT && signingId !== credential.id && (<>
+            <Button size="sm" variant="outline" onClick={() => setEditor({ contributorId: credential.contributor_user_id, draft: credential })} leftIcon={<Edit3 size={14}/>}>Edit</Button>
+            <Button size="sm" variant="primary" onClick={() => { setSigningId(credential.id); setEditor(null); }} leftIcon={<PenTool size={14}/>}>Sign</Button>
+            <Button size="sm" variant="danger" onClick={() => handleDeleteDraft(credential)} isLoading={busyId === credential.id} leftIcon={<Trash2 size={14}/>}>Delete</Button>
+          </>)}
+          {isOwner && credential.status === CredentialStatus.SIGNED && (
+            <Button size="sm" variant="ghost" onClick={() => handleRevoke(credential)} disabled={busyId === credential.id} leftIcon={<Ban size={14}/>}>Revoke</Button>
+          )}
+        </div>
+      </div>
+      {signingId === credential.id && (
+        <form onSubmit={(e) => handleSign(e, credential)} className="mt-2 p-3 border border-gray-200 rounded-md bg-gray-50">
+          <Input
+            name={`signed-name-${credential.id}`}
+            label="Type your full name to sign"
+            value={signedName}
+            onChange={(e) => setSignedName(e.target.value)}
+            placeholder={project.posted_by_user?.name}
+            maxLength={200}
+            required
+            containerClassName="mb-2"
+          />
+          <p className="text-xs text-gray-500 mb-2">Once signed, the text is final and the contributor is notified.</p>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setSigningId(null)} disabled={busyId === credential.id}>Cancel</Button>
+            <Button type="submit" size="sm" variant="primary" isLoading={busyId === credential.id} disabled={!signedName.trim()} leftIcon={<PenTool size={14}/>}>Sign</Button>
+          </div>
+        </form>
+      )}
+      {editor?.draft?.id === credential.id && renderEditor(credential.contributor_user_id, credential)}
+    </div>
+  );
+
+  const renderEditor = (contributorId: string, draft?: Credential) => {
+    const contributorName = contributors.find(c => c.id === contributorId)?.name || 'the contributor';
+    const takenKinds = credentials.filter(c => c.contributor_user_id === contributorId).map(c => c.kind);
+    const availableKinds = ALL_KINDS.filter(kind => !takenKinds.includes(kind));
+    const preferred = defaultKindFor(project.compensation_model);
+    return (
+      <CredentialEditor
+        draft={draft}
+        defaultKind={availableKinds.includes(preferred) ? preferred : availableKinds[0]}
+        availableKinds={availableKinds}
+        buildTemplate={(kind) => buildCredentialDraft(kind, {
+          project,
+          contributorId,
+          contributorName,
+          leadName: project.posted_by_user?.name || 'Research Lead',
+          leadInstitution: project.posted_by_user?.institution,
+        })}
+        onSave={(input) => handleSaveDraft(contributorId, input, draft)}
+        onCancel={() => setEditor(null)}
+      />
+    );
+  };
+
+  if (isLoading) return <div className="flex justify-center py-4"><Spinner /></div>;
+
+  if (!isOwner) {
+    return credentials.length
+      ? <div className="divide-y divide-gray-100">{credentials.map(renderCredential)}</div>
+      : <p className="text-sm text-gray-500">The research lead has not issued a certificate or letter for you yet.</p>;
+  }
+
+  if (contributors.length === 0) {
+    return <p className="text-sm text-gray-500">This project has no accepted contributors.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {contributors.map(contributor => {
+        const own = credentials.filter(c => c.contributor_user_id === contributor.id);
+        const canDraftMore = own.length < ALL_KINDS.length;
+        const isDraftingNew = editor?.contributorId === contributor.id && !editor.draft;
+        return (
+          <div key={contributor.id} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-gray-800">{contributor.name || 'Contributor'}</p>
+              {canDraftMore && !isDraftingNew && (
+                <Button size="sm" variant="outline" onClick={() => { setEditor({ contributorId: contributor.id }); setSigningId(null); }} leftIcon={<FilePlus size={14}/>}>New Draft</Button>
+              )}
+            </div>
+            {own.length > 0 && <div className="divide-y divide-gray-100">{own.map(renderCredential)}</div>}
+            {isDraftingNew && renderEditor(contributor.id)}
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">Contributors see a document once it is signed. Anyone with its code can check it on the verification page.</p>
+    </div>
+  );
+};
+
+export default CredentialsPanel;
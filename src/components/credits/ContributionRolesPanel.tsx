@@ -0,0 +1,206 @@
+// components/credits/ContributionRolesPanel.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { ContributionCredit, CreditRole, NotificationType, Project, UserProfile } from '../../types.ts';
+import { getContributionCreditsForProject, proposeContributionRoles, withdrawContributionCredit } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { CREDIT_ROLE_LABELS } from '../../constants.ts';
+import { buildContributionStatement, ContributionStatementStyle } from '../../lib/contributionStatement.ts';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import Select from '../ui/Select.tsx';
+import { Check, Copy, Download, PlusCircle, Save, X } from 'lucide-react';
+
+interface ContributionRolesPanelProps {
+  project: Project;
+  isOwner: boolean;
+  contributors: Pick<UserProfile, 'id' | 'name'>[]; // Accepted contributors for the owner; the viewer alone for a contributor
+}
+
+const ALL_ROLES = Object.values(CreditRole);
+
+const ContributionRolesPanel: React.FC<ContributionRolesPanelProps> = ({ project, isOwner, contributors }) => {
+  const { addNotification } = useNotifications();
+
+  const [credits, setCredits] = useState<ContributionCredit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingContributorId, setEditingContributorId] = useState<string | null>(null);
+  const [selectedRoles, setSelectedRoles] = useState<CreditRole[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [statementStyle, setStatementStyle] = useState<ContributionStatementStyle>('by_author');
+
+  const loadCredits = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await getContributionCreditsForProject(project.id);
+      if (error) throw error;
+      setCredits(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load contribution roles.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [project.id, addNotification]);
+
+  useEffect(() => {
+    loadCredits();
+  }, [loadCredits]);
+
+  // Whether the viewer's side still has to confirm a role.
+  const awaitsViewer = (credit: ContributionCredit) =>
+    !credit.is_confirmed && (isOwner ? !credit.lead_confirmed_at : !credit.contributor_confirmed_at);
+
+  const propose = async (contributorId: string, roles: CreditRole[], key: string) => {
+    setBusyKey(key);
+    try {
+      const { data, error } = await proposeContributionRoles(project.id, contributorId, roles);
+      if (error) throw error;
+      setCredits(prev => [...prev.filter(c => c.contributor_user_id !== contributorId), ...(data || [])]);
+      setEditingContributorId(null);
+      addNotification(isOwner ? 'Roles saved. The contributor has been asked to confirm them.' : 'Roles saved. The research lead has been asked to confirm them.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to save roles: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const withdraw = async (credit: ContributionCredit) => {
+    setBusyKey(credit.id);
+    try {
+      const { error } = await withdrawContributionCredit(credit.id);
+      if (error) throw error;
+      setCredits(prev => prev.filter(c => c.id !== credit.id));
+    } catch (err: any) {
+      addNotification(`Failed to remove role: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const statement = buildContributionStatement(
+    project.title,
+    contributors.map(c => ({
+      name: c.name || 'Contributor',
+      roles: credits.filter(cr => cr.contributor_user_id === c.id && cr.is_confirmed).map(cr => cr.role),
+    })),
+    statementStyle
+  );
+  const hasConfirmed = credits.some(c => c.is_confirmed);
+
+  const copyStatement = async () => {
+    try {
+      await navigator.clipboard.writeText(statement);
+      addNotification('Statement copied to the clipboard.', NotificationType.SUCCESS);
+    } catch {
+      addNotification('Could not access the clipboard. Use Download instead.', NotificationType.WARNING);
+    }
+  };
+
+  const downloadStatement = () => {
+    const url = URL.createObjectURL(new Blob([statement], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `author-contributions_${project.title.replace(/[^a-zA-Z0-9_-]+/g, '-').slice(0, 80)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) return <div className="flex justify-center py-4"><Spinner /></div>;
+
+  if (contributors.length === 0) {
+    return <p className="text-sm text-gray-500">This project has no accepted contributors.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {contributors.map(contributor => {
+        const own = credits.filter(c => c.contributor_user_id === contributor.id);
+        const pendingForViewer = own.filter(awaitsViewer);
+        const unusedRoles = ALL_ROLES.filter(role => !own.some(c => c.role === role));
+        const isEditing = editingContributorId === contributor.id;
+        return (
+          <div key={contributor.id} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <p className="font-medium text-gray-800">{isOwner ? contributor.name || 'Contributor' : 'Your roles'}</p>
+              <div className="flex space-x-2">
+                {pendingForViewer.length > 1 && (
+                  <Button size="sm" variant="primary" onClick={() => propose(contributor.id, pendingForViewer.map(c => c.role), `confirm-${contributor.id}`)} isLoading={busyKey === `confirm-${contributor.id}`} leftIcon={<Check size={14}/>}>Confirm All</Button>
+                )}
+                {!isEditing && unusedRoles.length > 0 && (
+                  <Button size="sm" variant="outline" onClick={() => { setEditingContributorId(contributor.id); setSelectedRoles([]); }} leftIcon={<PlusCircle size={14}/>}>Propose Roles</Button>
+                )}
+              </div>
+            </div>
+
+            {own.length === 0 && !isEditing && <p className="text-sm text-gray-500">No roles recorded yet.</p>}
+            <ul className="flex flex-wrap gap-2">
+              {own.map(credit => (
+                <li key={credit.id} className={`inline-flex items-center text-xs px-2 py-1 rounded-full border ${credit.is_confirmed ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+                  {credit.is_confirmed && <Check size={12} className="mr-1" />}
+                  {CREDIT_ROLE_LABELS[credit.role]}
+                  {!credit.is_confirmed && (
+                    <span className="ml-1 text-gray-500">
+                      {awaitsViewer(credit) ? '· needs your confirmation' : `· awaiting ${isOwner ? 'contributor' : 'lead'}`}
+                    </span>
+                  )}
+                  {awaitsViewer(credit) && (
+                    <button type="button" onClick={() => propose(contributor.id, [credit.role], credit.id)} disabled={busyKey === credit.id} className="ml-1 text-green-700 hover:text-green-900" aria-label={`Confirm ${CREDIT_ROLE_LABELS[credit.role]}`}>
+                      <Check size={14} />
+                    </button>
+                  )}
+                  {!credit.is_confirmed && (
+                    <button type="button" onClick={() => withdraw(credit)} disabled={busyKey === credit.id} className="ml-1 text-red-600 hover:text-red-800" aria-label={`Remove ${CREDIT_ROLE_LABELS[credit.role]}`}>
+                      <X size={14} />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {isEditing && (
+              <div className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 mb-3">
+                  {unusedRoles.map(role => (
+                    <label key={role} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={selectedRoles.includes(role)}
+                        onChange={(e) => setSelectedRoles(prev => (e.target.checked ? [...prev, role] : prev.filter(r => r !== role)))}
+                      />
+                      {CREDIT_ROLE_LABELS[role]}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingContributorId(null)} disabled={busyKey === `propose-${contributor.id}`}>Cancel</Button>
+                  <Button size="sm" variant="primary" onClick={() => propose(contributor.id, selectedRoles, `propose-${contributor.id}`)} isLoading={busyKey === `propose-${contributor.id}`} disabled={selectedRoles.length === 0} leftIcon={<Save size={14}/>}>Save</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {hasConfirmed && (
+        <div className="p-3 border border-gray-200 rounded-md">
+          <div className="flex flex-wrap items-end justify-between gap-2 mb-2">
+            <h3 className="font-medium text-gray-800">Author-contribution statement</h3>
+            <div className="flex items-end space-x-2">
+              <Select name="statement-style" value={statementStyle} onChange={(e) => setStatementStyle(e.target.value as ContributionStatementStyle)} aria-label="Statement layout" containerClassName="mb-0">
+                <option value="by_author">One line per author</option>
+                <option value="by_role">One line per role</option>
+              </Select>
+              <Button size="sm" variant="outline" onClick={copyStatement} leftIcon={<Copy size={14}/>}>Copy</Button>
+              <Button size="sm" variant="outline" onClick={downloadStatement} leftIcon={<Download size={14}/>}>Download</Button>
+            </div>
+          </div>
+          <pre className="text-xs text-gray-700 whitespace-pre-wrap bg-gray-50 p-2 rounded">{statement}</pre>
+          <p className="text-xs text-gray-500 mt-1">Only roles confirmed by both the lead and the contributor are included.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContributionRolesPanel;
@@ -0,0 +1,74 @@
+// components/credits/UserContributionRoles.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ContributionCredit, CreditRole } from '../../types.ts';
+import { getConfirmedContributionCreditsForUser } from '../../services/apiService.ts';
+import { CREDIT_ROLE_LABELS } from '../../constants.ts';
+import Spinner from '../ui/Spinner.tsx';
+
+interface UserContributionRolesProps {
+  userId: string;
+}
+
+const ROLE_ORDER = Object.values(CreditRole);
+
+// Confirmed CRediT roles, grouped by project, for the profile page.
+const UserContributionRoles: React.FC<UserContributionRolesProps> = ({ userId }) => {
+  const [credits, setCredits] = useState<ContributionCredit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadCredits = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const { data, error: fetchError } = await getConfirmedContributionCreditsForUser(userId);
+        if (fetchError) throw fetchError;
+        if (!cancelled) setCredits(data || []);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load contribution roles.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadCredits();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const byProject = useMemo(() => {
+    const groups = new Map<string, { title: string; roles: CreditRole[] }>();
+    credits.forEach(credit => {
+      const group = groups.get(credit.project_id) || { title: credit.project?.title || 'Project', roles: [] };
+      group.roles.push(credit.role);
+      groups.set(credit.project_id, group);
+    });
+    return Array.from(groups.entries()).map(([projectId, group]) => ({
+      projectId,
+      title: group.title,
+      roles: group.roles.sort((a, b) => ROLE_ORDER.indexOf(a) - ROLE_ORDER.indexOf(b)),
+    }));
+  }, [credits]);
+
+  if (isLoading) return <div className="flex justify-center py-4"><Spinner /></div>;
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+  if (byProject.length === 0) return <p className="text-gray-500 italic">No confirmed contribution roles yet.</p>;
+
+  return (
+    <ul className="space-y-3">
+      {byProject.map(project => (
+        <li key={project.projectId}>
+          <Link to={`/projects/${project.projectId}`} className="font-medium text-primary hover:underline">{project.title}</Link>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {project.roles.map(role => (
+              <span key={role} className="bg-blue-50 text-blue-800 border border-blue-200 px-2 py-0.5 rounded-full text-xs">{CREDIT_ROLE_LABELS[role]}</span>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default UserContributionRoles;
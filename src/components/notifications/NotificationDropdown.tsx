@@ -1,5 +1,6 @@
 // components/notifications/NotificationDropdown.tsx
 import React from 'react';
+import { Link } from 'react-router-dom';
 import NotificationItem from './NotificationItem.tsx';
 import { AppNotification } from '../../types.ts';
 import Button from '../ui/Button.tsx';
@@ -84,6 +85,12 @@ const NotificationDropdown: React.FC<NotificationDropdownProps> = ({
           </Button>
         </div>
       )}
+
+      <div className="p-2 border-t bg-white text-center">
+        <Link to="/notifications" onClick={onClose} className="text-sm font-medium text-primary hover:underline">
+          View all notifications
+        </Link>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,108 @@
+// components/notifications/NotificationGroupItem.tsx
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AppNotification, AppNotificationGroup, NotificationTypeEnum } from '../../types.ts';
+import NotificationItem, { getNotificationTypeIcon } from './NotificationItem.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+// "12 new messages in "Project X"" for repeated events; the latest message itself for single ones.
+export const describeNotificationGroup = (group: AppNotificationGroup): string => {
+  if (group.total_count <= 1) return group.latest_message;
+  const n = group.total_count;
+  const inProject = group.project_title ? ` in "${group.project_title}"` : '';
+  switch (group.type) {
+    case NotificationTypeEnum.NEW_APPLICATION:
+      return `${n} new applications${group.project_title ? ` for "${group.project_title}"` : ''}`;
+    case NotificationTypeEnum.APPLICATION_STATUS_UPDATE:
+      return `${n} application updates${group.project_title ? ` for "${group.project_title}"` : ''}`;
+    case NotificationTypeEnum.PROJECT_MILESTONE_UPDATE:
+      return `${n} milestone updates${inProject}`;
+    case NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT:
+      return `${n} new messages${inProject}`;
+    case NotificationTypeEnum.CHAT_THREAD_REPLY:
+      return `${n} replies to your messages${inProject}`;
+    case NotificationTypeEnum.PROJECT_FUNDED:
+      return `${n} milestones paid${inProject}`;
+    default:
+      return group.project_title ? `${n} updates for "${group.project_title}"` : `${n} system updates`;
+  }
+};
+
+interface NotificationGroupItemProps {
+  group: AppNotificationGroup;
+  isSelected: boolean;
+  onToggleSelected: (groupKey: string) => void;
+  isExpanded: boolean;
+  onToggleExpanded: (groupKey: string) => void;
+  expandedItems?: AppNotification[];
+  isLoadingItems?: boolean;
+  onMarkItemAsRead: (notificationId: string) => void;
+}
+
+const NotificationGroupItem: React.FC<NotificationGroupItemProps> = ({
+  group,
+  isSelected,
+  onToggleSelected,
+  isExpanded,
+  onToggleExpanded,
+  expandedItems,
+  isLoadingItems,
+  onMarkItemAsRead,
+}) => {
+  const hasUnread = group.unread_count > 0;
+  const summary = describeNotificationGroup(group);
+
+  return (
+    <li className={`p-4 rounded-md border ${hasUnread ? 'border-l-4 border-primary bg-primary-light/10' : 'border-gray-200 bg-white'}`}>
+      <div className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggleSelected(group.group_key)}
+          className="mt-1 h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary"
+          aria-label={`Select: ${summary}`}
+        />
+        <div className="flex-shrink-0 mt-0.5">{getNotificationTypeIcon(group.type)}</div>
+        <div className="flex-1 min-w-0">
+          {group.latest_link ? (
+            <Link to={group.latest_link} className={`text-sm hover:underline ${hasUnread ? 'text-gray-800 font-medium' : 'text-gray-600'}`}>
+              {summary}
+            </Link>
+          ) : (
+            <p className={`text-sm ${hasUnread ? 'text-gray-800 font-medium' : 'text-gray-600'}`}>{summary}</p>
+          )}
+          <p className="text-xs text-gray-500 mt-0.5">
+            {new Date(group.latest_created_at).toLocaleString()}
+            {group.total_count > 1 && hasUnread && <span className="ml-2 text-primary font-medium">{group.unread_count} unread</span>}
+          </p>
+        </div>
+        {group.total_count > 1 && (
+          <button
+            type="button"
+            onClick={() => onToggleExpanded(group.group_key)}
+            className="p-1 rounded-full hover:bg-gray-200 text-gray-500"
+            aria-label={isExpanded ? 'Collapse group' : 'Expand group'}
+          >
+            {isExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+          </button>
+        )}
+      </div>
+      {isExpanded && (
+        <div className="mt-3 ml-7">
+          {isLoadingItems ? (
+            <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {(expandedItems || []).map(item => (
+                <NotificationItem key={item.id} notification={item} onMarkAsRead={onMarkItemAsRead} />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default NotificationGroupItem;
@@ -9,21 +9,24 @@ interface NotificationItemProps {
   onMarkAsRead?: (notificationId: string) => void; // Optional for now
 }
 
+export const getNotificationTypeIcon = (type: NotificationTypeEnum) => {
+  switch (type) {
+    case NotificationTypeEnum.NEW_APPLICATION:
+      return <BellRing size={18} className="text-blue-500" />;
+    case NotificationTypeEnum.APPLICATION_STATUS_UPDATE:
+      return <CheckCircle size={18} className="text-green-500" />;
+    case NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT:
+    case NotificationTypeEnum.CHAT_THREAD_REPLY:
+      return <MessageSquare size={18} className="text-purple-500" />;
+    case NotificationTypeEnum.PROJECT_MILESTONE_UPDATE:
+      return <AlertCircle size={18} className="text-yellow-500" />;
+    default:
+      return <Info size={18} className="text-gray-500" />;
+  }
+};
+
 const NotificationItem: React.FC<NotificationItemProps> = ({ notification, onMarkAsRead }) => {
-  const getIcon = () => {
-    switch (notification.type) {
-      case NotificationTypeEnum.NEW_APPLICATION:
-        return <BellRing size={18} className="text-blue-500" />;
-      case NotificationTypeEnum.APPLICATION_STATUS_UPDATE:
-        return <CheckCircle size={18} className="text-green-500" />;
-      case NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT:
-        return <MessageSquare size={18} className="text-purple-500" />;
-      case NotificationTypeEnum.PROJECT_MILESTONE_UPDATE:
-        return <AlertCircle size={18} className="text-yellow-500" />;
-      default:
-        return <Info size={18} className="text-gray-500" />;
-    }
-  };
+  const getIcon = () => getNotificationTypeIcon(notification.type);
 
   const content = (
     <div className="flex items-start space-x-3">
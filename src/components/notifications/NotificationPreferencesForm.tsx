@@ -0,0 +1,159 @@
+// components/notifications/NotificationPreferencesForm.tsx
+import React, { useEffect, useState } from 'react';
+import { NotificationTypeEnum, NotificationPreferenceInput, NotificationType, DigestFrequency } from '../../types.ts';
+import { getNotificationPreferences, saveNotificationPreferences } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { useAuth } from '../../hooks/useAuth.ts';
+import { NOTIFICATION_TYPE_LABELS } from '../../constants.ts';
+import Button from '../ui/Button.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import Select from '../ui/Select.tsx';
+import { Save } from 'lucide-react';
+
+type PreferenceMap = Record<NotificationTypeEnum, NotificationPreferenceInput>;
+
+// Chat messages are no longer notified (they show as unread counts), so there is nothing to configure for them.
+const CONFIGURABLE_TYPES = Object.values(NotificationTypeEnum).filter(type => type !== NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT);
+
+// Mirrors the defaults applied by public.create_notification when no row exists.
+const buildDefaultPreferences = (): PreferenceMap =>
+  Object.values(NotificationTypeEnum).reduce((acc, type) => {
+    acc[type] = { type, in_app: true, email_digest: false };
+    return acc;
+  }, {} as PreferenceMap);
+
+const NotificationPreferencesForm: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const { user, updateUserProfile } = useAuth();
+  const [preferences, setPreferences] = useState<PreferenceMap>(buildDefaultPreferences);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>(user?.email_digest_frequency || DigestFrequency.DAILY);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await getNotificationPreferences();
+        if (error) throw error;
+        const merged = buildDefaultPreferences();
+        (data || []).forEach(p => {
+          merged[p.type] = { type: p.type, in_app: p.in_app, email_digest: p.email_digest };
+        });
+        setPreferences(merged);
+      } catch (err: any) {
+        console.error("Failed to load notification preferences:", err);
+        addNotification('Failed to load notification preferences.', NotificationType.WARNING);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPreferences();
+  }, [addNotification]);
+
+  const anyEmailDigest = Object.values(preferences).some(p => p.email_digest);
+
+  const togglePreference = (type: NotificationTypeEnum, channel: 'in_app' | 'email_digest') => {
+    setPreferences(prev => ({ ...prev, [type]: { ...prev[type], [channel]: !prev[type][channel] } }));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await saveNotificationPreferences(Object.values(preferences));
+      if (error) throw error;
+      if (digestFrequency !== user?.email_digest_frequency) {
+        const { error: profileError } = await updateUserProfile({ email_digest_frequency: digestFrequency });
+        if (profileError) throw profileError;
+      }
+      addNotification('Notification preferences saved.', NotificationType.SUCCESS);
+      setIsDirty(false);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to save notification preferences.', NotificationType.ERROR);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex justify-center py-8"><Spinner size="md" /></div>;
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-4">
+        Choose how you hear about each kind of event. Untick both boxes to stop receiving it altogether.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+              <th scope="col" className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">In-app</th>
+              <th scope="col" className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Email digest</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {CONFIGURABLE_TYPES.map(type => {
+              const pref = preferences[type];
+              const isMuted = !pref.in_app && !pref.email_digest;
+              return (
+                <tr key={type}>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {NOTIFICATION_TYPE_LABELS[type]}
+                    {isMuted && <span className="ml-2 text-xs text-gray-400 italic">(off)</span>}
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={pref.in_app}
+                      onChange={() => togglePreference(type, 'in_app')}
+                      className="h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary"
+                      aria-label={`${NOTIFICATION_TYPE_LABELS[type]} in-app`}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={pref.email_digest}
+                      onChange={() => togglePreference(type, 'email_digest')}
+                      className="h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary"
+                      aria-label={`${NOTIFICATION_TYPE_LABELS[type]} email digest`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <Select
+        label="Email digest frequency"
+        value={digestFrequency}
+        onChange={(e) => { setDigestFrequency(e.target.value as DigestFrequency); setIsDirty(true); }}
+        disabled={!anyEmailDigest}
+        containerClassName="mt-4"
+      >
+        <option value={DigestFrequency.DAILY}>Daily</option>
+        <option value={DigestFrequency.WEEKLY}>Weekly</option>
+      </Select>
+      {!anyEmailDigest && <p className="text-xs text-gray-400 -mt-3">Tick at least one email digest box to receive a digest.</p>}
+      <div className="pt-4">
+        <Button
+          type="button"
+          className="w-full"
+          onClick={handleSave}
+          isLoading={isSaving}
+          disabled={!isDirty}
+          leftIcon={<Save size={18}/>}
+        >
+          Save Notification Preferences
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
@@ -0,0 +1,80 @@
+// components/notifications/PushNotificationToggle.tsx
+import React, { useEffect, useState } from 'react';
+import { NotificationType } from '../../types.ts';
+import { savePushSubscription, deletePushSubscription } from '../../services/apiService.ts';
+import { isPushSupported, getCurrentPushSubscription, subscribeBrowserToPush } from '../../lib/webPush.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import Button from '../ui/Button.tsx';
+import { BellRing, BellOff } from 'lucide-react';
+
+// Enables or disables OS-level push notifications (accepted applications, paid milestones) for this browser.
+const PushNotificationToggle: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const [subscription, setSubscription] = useState<PushSubscription | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    if (!supported) return;
+    getCurrentPushSubscription()
+      .then(setSubscription)
+      .catch(err => console.error("Failed to read push subscription:", err));
+  }, [supported]);
+
+  const handleEnable = async () => {
+    setIsBusy(true);
+    try {
+      const newSubscription = await subscribeBrowserToPush();
+      const { error } = await savePushSubscription(newSubscription);
+      if (error) throw error;
+      setSubscription(newSubscription);
+      addNotification('Push notifications enabled on this device.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to enable push notifications.', NotificationType.ERROR);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!subscription) return;
+    setIsBusy(true);
+    try {
+      const { error } = await deletePushSubscription(subscription.endpoint);
+      if (error) throw error;
+      await subscription.unsubscribe();
+      setSubscription(null);
+      addNotification('Push notifications disabled on this device.', NotificationType.INFO);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to disable push notifications.', NotificationType.ERROR);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!supported) {
+    return <p className="text-sm text-gray-400 italic">Push notifications are not available in this browser.</p>;
+  }
+
+  const isBlocked = Notification.permission === 'denied';
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <div>
+        <p className="text-sm font-medium text-gray-700">Push notifications on this device</p>
+        <p className="text-xs text-gray-500">
+          {isBlocked
+            ? 'Blocked in your browser settings.'
+            : 'Get an alert when your application is accepted or a milestone is paid, even when the app is closed.'}
+        </p>
+      </div>
+      {subscription ? (
+        <Button type="button" size="sm" variant="outline" onClick={handleDisable} isLoading={isBusy} leftIcon={<BellOff size={14}/>}>Disable</Button>
+      ) : (
+        <Button type="button" size="sm" variant="primary" onClick={handleEnable} isLoading={isBusy} disabled={isBlocked} leftIcon={<BellRing size={14}/>}>Enable</Button>
+      )}
+    </div>
+  );
+};
+
+export default PushNotificationToggle;
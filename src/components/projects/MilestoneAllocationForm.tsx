@@ -0,0 +1,90 @@
+// components/projects/MilestoneAllocationForm.tsx
+import React, { useState } from 'react';
+import { MilestoneAllocation, MilestoneAllocationInput, UserProfile, getMilestoneBudgetSummary } from '../../types.ts';
+import { formatCurrency, getCurrencyLabel } from '../../lib/currency.ts';
+import Input from '../ui/Input.tsx';
+import Button from '../ui/Button.tsx';
+import { AlertTriangle, Save } from 'lucide-react';
+
+interface MilestoneAllocationFormProps {
+  amount: number; // Milestone amount the shares are taken from
+  currency: string;
+  contributors: Pick<UserProfile, 'id' | 'name'>[]; // Accepted contributors of the project
+  allocations: MilestoneAllocation[];
+  onSave: (allocations: MilestoneAllocationInput[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Splits a milestone between accepted contributors. Blank or zero shares are left out; saving with every
+// share blank removes the split.
+const MilestoneAllocationForm: React.FC<MilestoneAllocationFormProps> = ({ amount, currency, contributors, allocations, onSave, onCancel }) => {
+  const [shares, setShares] = useState<Record<string, string>>(() =>
+    Object.fromEntries(allocations.map(a => [a.contributor_user_id, String(a.amount)]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const entries: MilestoneAllocationInput[] = contributors
+    .map(c => ({ contributor_user_id: c.id, amount: parseFloat(shares[c.id] || '') }))
+    .filter(a => a.amount > 0);
+  // Same cent-based arithmetic as the project budget check.
+  const summary = getMilestoneBudgetSummary(amount, entries);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (summary.isOverAllocated) return;
+    setIsSaving(true);
+    try {
+      await onSave(entries);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const splitEvenly = () => {
+    const cents = Math.round(amount * 100);
+    const base = Math.floor(cents / contributors.length);
+    setShares(Object.fromEntries(contributors.map((c, i) =>
+      // The first contributors absorb the remainder cents.
+      [c.id, ((base + (i < cents - base * contributors.length ? 1 : 0)) / 100).toFixed(2)]
+    )));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <div className="space-y-2 mb-3">
+        {contributors.map(c => (
+          <div key={c.id} className="flex items-center gap-3">
+            <span className="flex-1 text-sm text-gray-700">{c.name || 'Contributor'}</span>
+            <Input
+              name={`allocation-${c.id}`}
+              type="number"
+              step="0.01"
+              min="0"
+              value={shares[c.id] || ''}
+              onChange={(e) => setShares(prev => ({ ...prev, [c.id]: e.target.value }))}
+              placeholder={getCurrencyLabel(currency)}
+              aria-label={`Share for ${c.name || 'contributor'}`}
+              containerClassName="mb-0 w-36"
+            />
+          </div>
+        ))}
+      </div>
+      <p className={`text-xs mb-3 flex items-center ${summary.isOverAllocated ? 'text-red-600' : 'text-gray-500'}`}>
+        {summary.isOverAllocated && <AlertTriangle size={12} className="mr-1" />}
+        {formatCurrency(summary.allocated, currency)} of {formatCurrency(amount, currency)} allocated
+        {summary.isOverAllocated
+          ? ` (${formatCurrency(-summary.remaining, currency)} too much)`
+          : summary.remaining > 0 && entries.length > 0 && ` (${formatCurrency(summary.remaining, currency)} unallocated)`}
+      </p>
+      <div className="flex justify-between">
+        <Button type="button" size="sm" variant="ghost" onClick={splitEvenly} disabled={isSaving}>Split evenly</Button>
+        <div className="flex space-x-2">
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+          <Button type="submit" size="sm" variant="primary" isLoading={isSaving} disabled={summary.isOverAllocated} leftIcon={<Save size={14}/>}>Save Split</Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default MilestoneAllocationForm;
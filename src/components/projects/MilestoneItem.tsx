@@ -1,35 +1,105 @@
 
-import React from 'react';
-import { Milestone, MilestoneStatus } from '../../types.ts';
-import { Calendar, CheckCircle, Circle, DollarSign, Edit2, Trash2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { LOCKED_MILESTONE_STATUSES, Milestone, MilestoneAllocationInput, MilestoneStatus, MilestoneSubmission, MilestoneSubmissionStatus, UserProfile } from '../../types.ts';
+import { Calendar, CheckCircle, Circle, DollarSign, Edit2, Trash2, Upload, RotateCcw, ClipboardCheck, Paperclip, MessageSquare, FileText, Users } from 'lucide-react';
 import Button from '../ui/Button.tsx';
+import { formatCurrency } from '../../lib/currency.ts';
+import MilestoneSubmissionForm from './MilestoneSubmissionForm.tsx';
+import MilestoneReviewForm, { MilestoneReviewDecision } from './MilestoneReviewForm.tsx';
+import MilestoneAllocationForm from './MilestoneAllocationForm.tsx';
 
 interface MilestoneItemProps {
   milestone: Milestone;
   isEditable?: boolean;
   onUpdate?: (updatedMilestone: Milestone) => void;
   onDelete?: (milestoneId: string) => void;
-  onMarkComplete?: (milestoneId: string) => void; // Research Lead action
-  onFund?: (milestone: Milestone) => void; // Research Lead action for Stripe
+  onFund?: (milestone: Milestone) => void; // Research Lead action, opens the payment provider's checkout
+  isFunding?: boolean; // Checkout session is being created
+  onSubmitWork?: (milestoneId: string, notes: string, files: File[]) => Promise<void>; // Accepted contributor action
+  onReview?: (submissionId: string, decision: MilestoneReviewDecision, comments: string) => Promise<void>; // Research Lead action
+  onDownloadReceipt?: (milestone: Milestone) => void; // Payer and payee, once the milestone is paid
+  isDownloadingReceipt?: boolean;
+  viewerUserId?: string; // Contributors see their own share of a split milestone instead of the full amount
+  contributors?: Pick<UserProfile, 'id' | 'name'>[]; // Accepted contributors the milestone can be split between
+  onSaveAllocations?: (milestoneId: string, allocations: MilestoneAllocationInput[]) => Promise<void>; // Research Lead action
 }
 
-const MilestoneItem: React.FC<MilestoneItemProps> = ({ 
-  milestone, 
-  isEditable, 
-  onUpdate, 
+const getAttachmentName = (url: string): string => {
+  // Uploads are stored as <user_id>/<timestamp>_<original name>
+  const fileName = decodeURIComponent(url.split('/').pop() || url);
+  return fileName.replace(/^\d+_/, '');
+};
+
+const MilestoneItem: React.FC<MilestoneItemProps> = ({
+  milestone,
+  isEditable,
+  onUpdate,
   onDelete,
-  onMarkComplete,
-  onFund
+  onFund,
+  isFunding,
+  onSubmitWork,
+  onReview,
+  onDownloadReceipt,
+  isDownloadingReceipt,
+  viewerUserId,
+  contributors = [],
+  onSaveAllocations
 }) => {
+  const [activeForm, setActiveForm] = useState<'submit' | 'review' | 'allocate' | null>(null);
 
   const statusInfo = {
     [MilestoneStatus.PENDING]: { text: 'Pending', icon: <Circle size={18} className="text-yellow-500" />, color: 'text-yellow-600 bg-yellow-100' },
+    [MilestoneStatus.SUBMITTED]: { text: 'Awaiting Review', icon: <ClipboardCheck size={18} className="text-indigo-500" />, color: 'text-indigo-600 bg-indigo-100' },
+    [MilestoneStatus.CHANGES_REQUESTED]: { text: 'Changes Requested', icon: <RotateCcw size={18} className="text-orange-500" />, color: 'text-orange-600 bg-orange-100' },
+    [MilestoneStatus.APPROVED]: { text: 'Approved', icon: <CheckCircle size={18} className="text-green-500" />, color: 'text-green-600 bg-green-100' },
     [MilestoneStatus.COMPLETED]: { text: 'Completed', icon: <CheckCircle size={18} className="text-green-500" />, color: 'text-green-600 bg-green-100' },
     [MilestoneStatus.PAID]: { text: 'Paid', icon: <DollarSign size={18} className="text-blue-500" />, color: 'text-blue-600 bg-blue-100' },
   };
-  
-  // TODO: Implement edit functionality if isEditable is true and onUpdate is provided.
-  // For now, it's display-only within the item, form handles editing.
+
+  // Newest first; the first one is the submission the current status refers to.
+  const submissions: MilestoneSubmission[] = [...(milestone.submissions || [])]
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  const latestSubmission = submissions[0];
+
+  const canSubmit = !!onSubmitWork && (milestone.status === MilestoneStatus.PENDING || milestone.status === MilestoneStatus.CHANGES_REQUESTED);
+  const canReview = !!onReview && milestone.status === MilestoneStatus.SUBMITTED && latestSubmission?.status === MilestoneSubmissionStatus.PENDING_REVIEW;
+  const canFund = !!onFund && milestone.status === MilestoneStatus.APPROVED;
+  const canDownloadReceipt = !!onDownloadReceipt && milestone.status === MilestoneStatus.PAID;
+  const canAllocate = !!onSaveAllocations && contributors.length > 0 && milestone.amount > 0 && !LOCKED_MILESTONE_STATUSES.includes(milestone.status);
+  const hasActions = canSubmit || canReview || canFund || canDownloadReceipt || canAllocate || (isEditable && (onUpdate || onDelete));
+
+  const allocations = milestone.allocations || [];
+  const ownShare = !isEditable ? allocations.find(a => a.contributor_user_id === viewerUserId) : undefined;
+
+  const handleSubmitWork = async (notes: string, files: File[]) => {
+    if (!onSubmitWork) return;
+    try {
+      await onSubmitWork(milestone.id, notes, files);
+      setActiveForm(null);
+    } catch {
+      // Already reported by the page; keep the form open so nothing typed is lost.
+    }
+  };
+
+  const handleReview = async (decision: MilestoneReviewDecision, comments: string) => {
+    if (!onReview || !latestSubmission) return;
+    try {
+      await onReview(latestSubmission.id, decision, comments);
+      setActiveForm(null);
+    } catch {
+      // Already reported by the page.
+    }
+  };
+
+  const handleSaveAllocations = async (newAllocations: MilestoneAllocationInput[]) => {
+    if (!onSaveAllocations) return;
+    try {
+      await onSaveAllocations(milestone.id, newAllocations);
+      setActiveForm(null);
+    } catch {
+      // Already reported by the page.
+    }
+  };
 
   return (
     <div className="p-4 border border-gray-200 rounded-lg mb-3 bg-white shadow-sm">
@@ -37,32 +107,98 @@ const MilestoneItem: React.FC<MilestoneItemProps> = ({
         <div className="flex-1">
           <p className="font-semibold text-gray-800">{milestone.description}</p>
           <div className="flex items-center text-sm text-gray-500 mt-1">
-            <DollarSign size={16} className="mr-1" /> Amount: ${milestone.amount.toFixed(2)}
+            <DollarSign size={16} className="mr-1" />
+            {ownShare ? `Your share: ${formatCurrency(ownShare.amount, milestone.currency)}` : `Amount: ${formatCurrency(milestone.amount, milestone.currency)}`}
             {milestone.due_date && (
               <span className="ml-3 flex items-center">
                 <Calendar size={16} className="mr-1" /> Due: {new Date(milestone.due_date).toLocaleDateString()}
               </span>
             )}
           </div>
+          {isEditable && allocations.length > 0 && (
+            <p className="flex items-center text-xs text-gray-500 mt-1">
+              <Users size={14} className="mr-1" />
+              Split: {allocations.map(a => `${a.contributor_user?.name || 'Contributor'} ${formatCurrency(a.amount, milestone.currency)}`).join(', ')}
+            </p>
+          )}
         </div>
         <div className={`flex items-center px-3 py-1 rounded-full text-xs font-medium ${statusInfo[milestone.status].color}`}>
           {statusInfo[milestone.status].icon}
           <span className="ml-1.5">{statusInfo[milestone.status].text}</span>
         </div>
       </div>
-      {isEditable && (
+
+      {latestSubmission && (
+        <div className="mt-3 p-3 bg-gray-50 border border-gray-100 rounded-md text-sm">
+          <p className="text-xs text-gray-500 mb-1">
+            Submitted by {latestSubmission.submitted_by_user?.name || 'a contributor'} on {new Date(latestSubmission.created_at).toLocaleString()}
+            {submissions.length > 1 && ` (submission ${submissions.length})`}
+          </p>
+          <p className="text-gray-700 whitespace-pre-wrap">{latestSubmission.notes}</p>
+          {latestSubmission.attachment_urls.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {latestSubmission.attachment_urls.map(url => (
+                <li key={url}>
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-xs text-primary hover:underline">
+                    <Paperclip size={12} className="mr-1" />{getAttachmentName(url)}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+          {latestSubmission.review_comments && (
+            <div className={`mt-2 p-2 rounded text-xs ${latestSubmission.status === MilestoneSubmissionStatus.CHANGES_REQUESTED ? 'bg-orange-50 text-orange-800' : 'bg-green-50 text-green-800'}`}>
+              <span className="inline-flex items-center font-medium"><MessageSquare size={12} className="mr-1" />Reviewer comments:</span>
+              <p className="mt-0.5 whitespace-pre-wrap">{latestSubmission.review_comments}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeForm === 'submit' && (
+        <MilestoneSubmissionForm
+          onSubmit={handleSubmitWork}
+          onCancel={() => setActiveForm(null)}
+          isResubmission={milestone.status === MilestoneStatus.CHANGES_REQUESTED}
+        />
+      )}
+      {activeForm === 'review' && (
+        <MilestoneReviewForm onReview={handleReview} onCancel={() => setActiveForm(null)} />
+      )}
+      {activeForm === 'allocate' && (
+        <MilestoneAllocationForm
+          amount={milestone.amount}
+          currency={milestone.currency}
+          contributors={contributors}
+          allocations={allocations}
+          onSave={handleSaveAllocations}
+          onCancel={() => setActiveForm(null)}
+        />
+      )}
+
+      {hasActions && !activeForm && (
         <div className="mt-3 flex justify-end space-x-2">
-          {/* Example buttons, connect to actual logic */}
-          {onFund && milestone.status === MilestoneStatus.PENDING && (
-            <Button size="sm" variant="secondary" onClick={() => onFund(milestone)} leftIcon={<DollarSign size={14}/>}>Fund</Button>
+          {canSubmit && (
+            <Button size="sm" variant="primary" onClick={() => setActiveForm('submit')} leftIcon={<Upload size={14}/>}>
+              {milestone.status === MilestoneStatus.CHANGES_REQUESTED ? 'Resubmit Work' : 'Submit Work'}
+            </Button>
+          )}
+          {canReview && (
+            <Button size="sm" variant="primary" onClick={() => setActiveForm('review')} leftIcon={<ClipboardCheck size={14}/>}>Review Submission</Button>
+          )}
+          {canFund && (
+            <Button size="sm" variant="secondary" onClick={() => onFund!(milestone)} isLoading={isFunding} leftIcon={<DollarSign size={14}/>}>Fund</Button>
+          )}
+          {canAllocate && (
+            <Button size="sm" variant="outline" onClick={() => setActiveForm('allocate')} leftIcon={<Users size={14}/>}>Split Payout</Button>
           )}
-          {onMarkComplete && milestone.status === MilestoneStatus.PENDING && ( // Assuming funded separately or not required for completion
-             <Button size="sm" variant="primary" onClick={() => onMarkComplete(milestone.id)} leftIcon={<CheckCircle size={14}/>}>Mark Complete</Button>
+          {canDownloadReceipt && (
+            <Button size="sm" variant="outline" onClick={() => onDownloadReceipt!(milestone)} isLoading={isDownloadingReceipt} leftIcon={<FileText size={14}/>}>Receipt</Button>
           )}
-          {onUpdate && (
+          {isEditable && onUpdate && (
              <Button size="sm" variant="outline" onClick={() => { /* Open edit modal or inline form */ }} leftIcon={<Edit2 size={14}/>}>Edit</Button>
           )}
-          {onDelete && (
+          {isEditable && onDelete && (
              <Button size="sm" variant="danger" onClick={() => onDelete(milestone.id)} leftIcon={<Trash2 size={14}/>}>Delete</Button>
           )}
         </div>
@@ -71,4 +207,4 @@ const MilestoneItem: React.FC<MilestoneItemProps> = ({
   );
 };
 
-export default MilestoneItem;
\ No newline at end of file
+export default MilestoneItem;
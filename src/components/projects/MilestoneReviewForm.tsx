@@ -0,0 +1,69 @@
+// components/projects/MilestoneReviewForm.tsx
+import React, { useState } from 'react';
+import { MilestoneSubmissionStatus } from '../../types.ts';
+import Textarea from '../ui/Textarea.tsx';
+import Button from '../ui/Button.tsx';
+import { CheckCircle, RotateCcw } from 'lucide-react';
+
+export type MilestoneReviewDecision = MilestoneSubmissionStatus.APPROVED | MilestoneSubmissionStatus.CHANGES_REQUESTED;
+
+interface MilestoneReviewFormProps {
+  onReview: (decision: MilestoneReviewDecision, comments: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const MilestoneReviewForm: React.FC<MilestoneReviewFormProps> = ({ onReview, onCancel }) => {
+  const [comments, setComments] = useState('');
+  const [pendingDecision, setPendingDecision] = useState<MilestoneReviewDecision | null>(null);
+
+  const handleDecision = async (decision: MilestoneReviewDecision) => {
+    setPendingDecision(decision);
+    try {
+      await onReview(decision, comments.trim());
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <Textarea
+        name="reviewComments"
+        label="Comments for the contributor"
+        placeholder="Required when requesting changes"
+        value={comments}
+        onChange={(e) => setComments(e.target.value)}
+        maxLength={2000}
+        rows={3}
+        containerClassName="mb-3"
+      />
+      <div className="flex justify-end space-x-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={!!pendingDecision}>Cancel</Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => handleDecision(MilestoneSubmissionStatus.CHANGES_REQUESTED)}
+          isLoading={pendingDecision === MilestoneSubmissionStatus.CHANGES_REQUESTED}
+          disabled={!comments.trim() || !!pendingDecision}
+          leftIcon={<RotateCcw size={14}/>}
+        >
+          Request changes
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="primary"
+          onClick={() => handleDecision(MilestoneSubmissionStatus.APPROVED)}
+          isLoading={pendingDecision === MilestoneSubmissionStatus.APPROVED}
+          disabled={!!pendingDecision}
+          leftIcon={<CheckCircle size={14}/>}
+        >
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MilestoneReviewForm;
@@ -0,0 +1,69 @@
+// components/projects/MilestoneSubmissionForm.tsx
+import React, { useId, useState } from 'react';
+import Textarea from '../ui/Textarea.tsx';
+import Button from '../ui/Button.tsx';
+import { Paperclip, Send } from 'lucide-react';
+
+interface MilestoneSubmissionFormProps {
+  onSubmit: (notes: string, files: File[]) => Promise<void>;
+  onCancel: () => void;
+  isResubmission?: boolean;
+}
+
+const MAX_NOTES_LENGTH = 4000; // Matches the CHECK on milestone_submissions.notes
+
+const MilestoneSubmissionForm: React.FC<MilestoneSubmissionFormProps> = ({ onSubmit, onCancel, isResubmission }) => {
+  const [notes, setNotes] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputId = useId();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!notes.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(notes.trim(), files);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <Textarea
+        name="submissionNotes"
+        label={isResubmission ? 'What did you change?' : 'Describe the work you are submitting'}
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        maxLength={MAX_NOTES_LENGTH}
+        rows={4}
+        required
+        containerClassName="mb-2"
+      />
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <label htmlFor={fileInputId} className="cursor-pointer inline-flex items-center text-sm text-gray-600 hover:text-primary">
+          <Paperclip size={16} className="mr-1" /> Attach files
+        </label>
+        <input
+          id={fileInputId}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => setFiles(e.target.files ? Array.from(e.target.files) : [])}
+        />
+        {files.map(file => (
+          <span key={file.name} className="text-xs bg-white border border-gray-200 rounded px-2 py-0.5 text-gray-700">{file.name}</span>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSubmitting}>Cancel</Button>
+        <Button type="submit" size="sm" variant="primary" isLoading={isSubmitting} disabled={!notes.trim()} leftIcon={<Send size={14}/>}>
+          {isResubmission ? 'Resubmit' : 'Submit for review'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MilestoneSubmissionForm;
@@ -0,0 +1,53 @@
+// components/projects/ProjectBudgetSummary.tsx
+import React from 'react';
+import { CompensationModel, MilestoneInput, getMilestoneBudgetSummary } from '../../types.ts';
+import { formatCurrency } from '../../lib/currency.ts';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface ProjectBudgetSummaryProps {
+  compensationModel: CompensationModel;
+  currency: string;
+  stipendAmount?: number;
+  milestones?: MilestoneInput[];
+}
+
+// Live view of how the milestones use the stipend, shown while the project form is being filled in.
+const ProjectBudgetSummary: React.FC<ProjectBudgetSummaryProps> = ({ compensationModel, currency, stipendAmount, milestones = [] }) => {
+  const summary = getMilestoneBudgetSummary(stipendAmount, milestones);
+
+  if (compensationModel !== CompensationModel.STIPEND) {
+    if (summary.allocated <= 0) return null;
+    return (
+      <div className="p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-700 flex items-center">
+        <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+        Milestones carry {formatCurrency(summary.allocated, currency)}, but only stipend projects can have paid milestones. Set their amounts to 0.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-3 rounded-md border text-sm ${summary.isOverAllocated ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <p className="text-xs text-gray-500">Stipend budget</p>
+          <p className="font-semibold text-gray-800">{formatCurrency(summary.budget, currency)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Allocated to milestones</p>
+          <p className="font-semibold text-gray-800">{formatCurrency(summary.allocated, currency)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">{summary.isOverAllocated ? 'Over-allocated' : 'Remaining'}</p>
+          <p className={`font-semibold inline-flex items-center ${summary.isOverAllocated ? 'text-red-600' : 'text-green-700'}`}>
+            {summary.isOverAllocated
+              ? <AlertTriangle size={14} className="mr-1" />
+              : summary.remaining === 0 && summary.budget > 0 && <CheckCircle size={14} className="mr-1" />}
+            {formatCurrency(Math.abs(summary.remaining), currency)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBudgetSummary;
@@ -4,13 +4,17 @@ import { Project, CompensationModel, UserRole } from '../../types.ts';
 import Button from '../ui/Button.tsx';
 import { Briefcase, CalendarDays, DollarSign, Edit3, Eye, Users, CheckSquare, Settings } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth.ts';
+import { formatCurrency } from '../../lib/currency.ts';
+import ReputationBadge from '../ratings/ReputationBadge.tsx';
+import UnreadBadge from '../chat/UnreadBadge.tsx';
 
 interface ProjectCardProps {
   project: Project;
   showApplyButton?: boolean;
+  unreadMessageCount?: number; // Unread project chat messages, for projects the viewer takes part in
 }
 
-const ProjectCard: React.FC<ProjectCardProps> = ({ project, showApplyButton = true }) => {
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, showApplyButton = true, unreadMessageCount }) => {
   const { user, isResearchLead } = useAuth();
 
   // Safe date formatter
@@ -52,6 +56,7 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project, showApplyButton = tr
             >
               {project.title || 'Untitled Project'}
             </Link>
+            <UnreadBadge count={unreadMessageCount} className="ml-2 align-middle" />
           </h3>
           <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
             project.status === 'open' ? 'bg-green-100 text-green-700' : 
@@ -72,7 +77,7 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project, showApplyButton = tr
               {getCompensationIcon(project.compensation_model)}
               {project.compensation_model.replace('_', ' ')}
               {project.compensation_model === CompensationModel.STIPEND && project.stipend_amount && (
-                <span className="ml-1 font-semibold text-green-700">${project.stipend_amount}</span>
+                <span className="ml-1 font-semibold text-green-700">{formatCurrency(project.stipend_amount, project.currency)}</span>
               )}
             </p>
           )}
@@ -106,6 +111,9 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project, showApplyButton = tr
           <div className="text-xs text-gray-500 mt-auto pt-3 border-t border-gray-200">
             Posted by: {project.posted_by_user.is_anonymous && !isOwner ? 'Anonymous Researcher' : project.posted_by_user.name} 
             {project.posted_by_user.is_anonymous && !isOwner ? '' : ` (${project.posted_by_user.institution || 'Unknown'})`}
+            {(!project.posted_by_user.is_anonymous || isOwner) && (
+              <div className="mt-1"><ReputationBadge reputation={project.posted_by_user.reputation} /></div>
+            )}
           </div>
         )}
       </div>
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useForm, SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { ProjectInput, ProjectSchema, CompensationModel, Project, NotificationType } from '../../types.ts';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../constants.ts';
+import { getCurrencyLabel } from '../../lib/currency.ts';
 import Input from '../ui/Input.tsx';
 import Textarea from '../ui/Textarea.tsx';
 import Select from '../ui/Select.tsx';
@@ -11,6 +13,7 @@ import { useNotifications } from '../../hooks/useNotifications.ts';
 import { createProject, updateProject } from '../../services/apiService.ts';
 import { useNavigate } from 'react-router-dom';
 import MilestoneListEditor from './MilestoneListEditor.tsx';
+import ProjectBudgetSummary from './ProjectBudgetSummary.tsx';
 import { PlusCircle, Tag } from 'lucide-react';
 
 interface ProjectFormProps {
@@ -40,6 +43,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
       description: '',
       required_skills: [],
       compensation_model: CompensationModel.STIPEND,
+      currency: DEFAULT_CURRENCY,
       confidentiality_agreement_required: false,
       milestones: [],
       deliverables: '', // Textarea starts with a string
@@ -50,6 +54,8 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
         start_date: projectToEdit.start_date?.split('T')[0],
         end_date: projectToEdit.end_date?.split('T')[0],
         milestones: projectToEdit.milestones?.map(m => ({
+          id: m.id,
+          status: m.status,
           description: m.description,
           amount: m.amount,
           due_date: m.due_date?.split('T')[0]
@@ -68,6 +74,13 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
   }, [projectToEdit]);
 
   const compensationModelValue = watch('compensation_model');
+  const stipendAmountValue = watch('stipend_amount');
+  const currencyValue = watch('currency');
+  // Keep a project's existing currency selectable even if it has since been dropped from the list.
+  const currencyOptions = projectToEdit?.currency && !SUPPORTED_CURRENCIES.includes(projectToEdit.currency)
+    ? [...SUPPORTED_CURRENCIES, projectToEdit.currency]
+    : SUPPORTED_CURRENCIES;
+  const milestonesValue = watch('milestones');
 
   const handleAddSkill = () => {
     if (skillInput.trim() && !currentSkills.includes(skillInput.trim())) {
@@ -97,8 +110,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
 
       let response;
       if (projectToEdit) {
-        const { milestones, ...projectCoreData } = data;
-        response = await updateProject(projectToEdit.id, projectCoreData);
+        response = await updateProject(projectToEdit.id, data);
       } else {
         response = await createProject(data);
       }
@@ -206,15 +218,26 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
         </Select>
       </div>
 
-      {compensationModelValue === CompensationModel.STIPEND && (
-        <Input 
-          label="Stipend Amount (USD, Optional)" 
-          type="number" 
-          step="0.01" 
-          {...register('stipend_amount', { valueAsNumber: true })} 
-          error={errors.stipend_amount?.message} 
-        />
-      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {compensationModelValue === CompensationModel.STIPEND && (
+          <Input 
+            label={`Stipend Amount (${getCurrencyLabel(currencyValue || DEFAULT_CURRENCY)}, Optional)`} 
+            type="number" 
+            step="0.01" 
+            {...register('stipend_amount', { valueAsNumber: true })} 
+            error={errors.stipend_amount?.message} 
+          />
+        )}
+        <Select 
+          label="Currency" 
+          {...register('currency')} 
+          error={errors.currency?.message}
+        >
+          {currencyOptions.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </Select>
+      </div>
       
       <Textarea 
         label="Deliverables (Optional, one per line)" 
@@ -256,7 +279,14 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ projectToEdit }) => {
         </label>
       </div>
 
-      <MilestoneListEditor control={control} register={register} errors={errors} />
+      <MilestoneListEditor control={control} register={register} errors={errors} currency={currencyValue || DEFAULT_CURRENCY} />
+
+      <ProjectBudgetSummary
+        compensationModel={compensationModelValue}
+        currency={currencyValue || DEFAULT_CURRENCY}
+        stipendAmount={stipendAmountValue}
+        milestones={milestonesValue}
+      />
 
       <Button 
         type="submit" 
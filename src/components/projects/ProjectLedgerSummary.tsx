@@ -0,0 +1,271 @@
+// components/projects/ProjectLedgerSummary.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { LedgerTransaction, LedgerTransactionKind, MilestoneAllocationBalance, MilestoneLedgerBalance, NotificationType, ProjectLedgerBalance } from '../../types.ts';
+import { getProjectLedgerBalance, getMilestoneLedgerBalances, getMilestoneAllocationBalances, getLedgerTransactionsForProject, recordMilestoneDisbursement } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import Input from '../ui/Input.tsx';
+import Select from '../ui/Select.tsx';
+import { formatCurrency, getCurrencyLabel } from '../../lib/currency.ts';
+import { AlertTriangle, ArrowDownLeft, ArrowUpRight, Lock, Wallet } from 'lucide-react';
+
+type DisbursementKind = LedgerTransactionKind.PAYOUT | LedgerTransactionKind.REFUND;
+
+interface ProjectLedgerSummaryProps {
+  projectId: string;
+  canRecordDisbursements?: boolean; // Admins record payouts and refunds made with the payment provider
+}
+
+const TRANSACTION_KIND_LABELS: Record<LedgerTransactionKind, string> = {
+  [LedgerTransactionKind.FUNDING]: 'Funding received',
+  [LedgerTransactionKind.ESCROW_HOLD]: 'Held in escrow',
+  [LedgerTransactionKind.PAYOUT]: 'Payout',
+  [LedgerTransactionKind.REFUND]: 'Refund',
+};
+
+const ProjectLedgerSummary: React.FC<ProjectLedgerSummaryProps> = ({ projectId, canRecordDisbursements }) => {
+  const { addNotification } = useNotifications();
+
+  const [balance, setBalance] = useState<ProjectLedgerBalance | null>(null);
+  const [milestoneBalances, setMilestoneBalances] = useState<MilestoneLedgerBalance[]>([]);
+  const [shareBalances, setShareBalances] = useState<MilestoneAllocationBalance[]>([]);
+  const [transactions, setTransactions] = useState<LedgerTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [disbursement, setDisbursement] = useState<{ milestoneId: string; kind: DisbursementKind } | null>(null);
+  const [disbursementAmount, setDisbursementAmount] = useState('');
+  const [disbursementReference, setDisbursementReference] = useState('');
+  const [disbursementRecipientId, setDisbursementRecipientId] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [balanceRes, milestonesRes, sharesRes, transactionsRes] = await Promise.all([
+        getProjectLedgerBalance(projectId),
+        getMilestoneLedgerBalances(projectId),
+        getMilestoneAllocationBalances(projectId),
+        getLedgerTransactionsForProject(projectId),
+      ]);
+      if (balanceRes.error) throw balanceRes.error;
+      if (milestonesRes.error) throw milestonesRes.error;
+      if (sharesRes.error) throw sharesRes.error;
+      if (transactionsRes.error) throw transactionsRes.error;
+      setBalance(balanceRes.data);
+      setMilestoneBalances(milestonesRes.data || []);
+      setShareBalances(sharesRes.data || []);
+      setTransactions(transactionsRes.data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load project finances.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, addNotification]);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const sharesOf = (milestoneId: string) => shareBalances.filter(s => s.milestone_id === milestoneId);
+
+  // Split milestones are paid share by share; the amount defaults to what is still owed on the share.
+  const selectRecipient = (milestone: MilestoneLedgerBalance, recipientId: string) => {
+    const share = sharesOf(milestone.milestone_id).find(s => s.contributor_user_id === recipientId);
+    setDisbursementRecipientId(recipientId);
+    setDisbursementAmount(Math.min(Number(share?.outstanding ?? milestone.in_escrow), Number(milestone.in_escrow)).toFixed(2));
+  };
+
+  const openDisbursementForm = (milestone: MilestoneLedgerBalance, kind: DisbursementKind) => {
+    setDisbursement({ milestoneId: milestone.milestone_id, kind });
+    setDisbursementAmount(Number(milestone.in_escrow).toFixed(2));
+    setDisbursementReference('');
+    setDisbursementRecipientId('');
+    const unpaidShare = sharesOf(milestone.milestone_id).find(s => s.outstanding > 0);
+    if (kind === LedgerTransactionKind.PAYOUT && unpaidShare) selectRecipient(milestone, unpaidShare.contributor_user_id);
+  };
+
+  const handleRecordDisbursement = async () => {
+    if (!disbursement) return;
+    const amount = parseFloat(disbursementAmount);
+    if (!(amount > 0)) {
+      addNotification('Enter an amount greater than zero.', NotificationType.WARNING);
+      return;
+    }
+    setIsRecording(true);
+    try {
+      const { error } = await recordMilestoneDisbursement(
+        disbursement.milestoneId,
+        disbursement.kind,
+        amount,
+        disbursementReference.trim(),
+        disbursement.kind === LedgerTransactionKind.PAYOUT ? disbursementRecipientId || undefined : undefined
+      );
+      if (error) throw error;
+      addNotification(disbursement.kind === LedgerTransactionKind.PAYOUT ? 'Payout recorded.' : 'Refund recorded.', NotificationType.SUCCESS);
+      setDisbursement(null);
+      await loadLedger();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to record the transaction.', NotificationType.ERROR);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  if (isLoading && !balance) {
+    return <div className="flex justify-center py-6"><Spinner /></div>;
+  }
+  if (!balance) return null;
+
+  const isOverAllocated = balance.unallocated_budget < 0;
+  const formatAmount = (amount: number | null | undefined) => formatCurrency(amount, balance.currency);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="p-3 bg-gray-50 border rounded-md">
+          <p className="text-xs text-gray-500">Stipend budget</p>
+          <p className="text-lg font-semibold text-gray-800">{formatAmount(balance.stipend_amount)}</p>
+          <p className={`text-xs mt-0.5 ${isOverAllocated ? 'text-red-600' : 'text-gray-500'}`}>
+            {isOverAllocated
+              ? <span className="inline-flex items-center"><AlertTriangle size={12} className="mr-1" />{formatAmount(-balance.unallocated_budget)} over-allocated</span>
+              : `${formatAmount(balance.unallocated_budget)} not in milestones`}
+          </p>
+        </div>
+        <div className="p-3 bg-gray-50 border rounded-md">
+          <p className="text-xs text-gray-500">Funded</p>
+          <p className="text-lg font-semibold text-gray-800">{formatAmount(balance.funded)}</p>
+          <p className="text-xs text-gray-500 mt-0.5">of {formatAmount(balance.milestones_total)} in milestones</p>
+        </div>
+        <div className="p-3 bg-gray-50 border rounded-md">
+          <p className="text-xs text-gray-500 inline-flex items-center"><Lock size={12} className="mr-1" />In escrow</p>
+          <p className="text-lg font-semibold text-gray-800">{formatAmount(balance.in_escrow)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 border rounded-md">
+          <p className="text-xs text-gray-500">Paid out / refunded</p>
+          <p className="text-lg font-semibold text-gray-800">{formatAmount(balance.paid_out)}</p>
+          <p className="text-xs text-gray-500 mt-0.5">{formatAmount(balance.refunded)} refunded</p>
+        </div>
+      </div>
+
+      {milestoneBalances.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Milestone</th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Budget</th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Funded</th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">In escrow</th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Paid out</th>
+                <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Refunded</th>
+                {canRecordDisbursements && <th scope="col" className="px-3 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {milestoneBalances.map(m => (
+                <React.Fragment key={m.milestone_id}>
+                  <tr>
+                    <td className="px-3 py-2 text-gray-800">
+                      {m.description}
+                      <span className="ml-2 text-xs text-gray-500">({m.status.replace(/_/g, ' ')})</span>
+                      {sharesOf(m.milestone_id).map(share => (
+                        <p key={share.allocation_id} className="text-xs text-gray-500">
+                          {share.contributor_name}: {formatAmount(share.paid_out)} of {formatAmount(share.amount)} paid
+                        </p>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatAmount(m.budgeted_amount)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatAmount(m.funded)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-800">{formatAmount(m.in_escrow)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatAmount(m.paid_out)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatAmount(m.refunded)}</td>
+                    {canRecordDisbursements && (
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {m.in_escrow > 0 && (
+                          <>
+                            <Button size="sm" variant="ghost" onClick={() => openDisbursementForm(m, LedgerTransactionKind.PAYOUT)} leftIcon={<ArrowUpRight size={14}/>}>Payout</Button>
+                            <Button size="sm" variant="ghost" onClick={() => openDisbursementForm(m, LedgerTransactionKind.REFUND)} leftIcon={<ArrowDownLeft size={14}/>}>Refund</Button>
+                          </>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                  {disbursement?.milestoneId === m.milestone_id && (
+                    <tr>
+                      <td colSpan={7} className="px-3 py-3 bg-gray-50">
+                        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                          {disbursement.kind === LedgerTransactionKind.PAYOUT && sharesOf(m.milestone_id).length > 0 && (
+                            <Select
+                              name="disbursementRecipient"
+                              label="Contributor"
+                              value={disbursementRecipientId}
+                              onChange={(e) => selectRecipient(m, e.target.value)}
+                              containerClassName="mb-0"
+                            >
+                              {sharesOf(m.milestone_id).map(share => (
+                                <option key={share.allocation_id} value={share.contributor_user_id}>
+                                  {share.contributor_name} ({formatAmount(share.outstanding)} owed)
+                                </option>
+                              ))}
+                            </Select>
+                          )}
+                          <Input
+                            name="disbursementAmount"
+                            label={`${disbursement.kind === LedgerTransactionKind.PAYOUT ? 'Payout' : 'Refund'} amount (${getCurrencyLabel(balance.currency)})`}
+                            type="number"
+                            step="0.01"
+                            min="0.01"
+                            max={m.in_escrow}
+                            value={disbursementAmount}
+                            onChange={(e) => setDisbursementAmount(e.target.value)}
+                            containerClassName="mb-0"
+                          />
+                          <Input
+                            name="disbursementReference"
+                            label="Transfer reference (optional)"
+                            value={disbursementReference}
+                            onChange={(e) => setDisbursementReference(e.target.value)}
+                            placeholder="Provider transfer or refund id"
+                            containerClassName="mb-0 flex-1"
+                          />
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setDisbursement(null)} disabled={isRecording}>Cancel</Button>
+                            <Button size="sm" variant="primary" onClick={handleRecordDisbursement} isLoading={isRecording}>Record</Button>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-md font-semibold text-gray-700 mb-2 inline-flex items-center"><Wallet size={16} className="mr-2" />Transactions</h3>
+        {transactions.length === 0 ? (
+          <p className="text-sm text-gray-500">No money has moved for this project yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {transactions.map(t => (
+              <li key={t.id} className="py-2 flex justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-gray-800">{TRANSACTION_KIND_LABELS[t.kind]}: <span className="text-gray-600">{t.description}</span></p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(t.created_at).toLocaleString()}
+                    {t.external_reference && <span className="ml-2 font-mono">{t.external_reference}</span>}
+                  </p>
+                </div>
+                <span className="font-medium text-gray-800 whitespace-nowrap">{formatCurrency(t.amount, t.currency)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLedgerSummary;
@@ -0,0 +1,98 @@
+// components/projects/TimesheetHoursChart.tsx
+import React, { useMemo } from 'react';
+import { TimesheetEntry, TimesheetStatus } from '../../types.ts';
+
+interface TimesheetHoursChartProps {
+  entries: TimesheetEntry[];
+  estimatedHours?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 40 };
+
+// Hours are stored with two decimals; sums of floats are rounded back for display.
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+interface ChartPoint {
+  date: string;
+  logged: number; // Cumulative approved + pending hours
+  approved: number; // Cumulative approved hours
+}
+
+// Cumulative hours over time against the project's estimate. Rejected entries are left out.
+const TimesheetHoursChart: React.FC<TimesheetHoursChartProps> = ({ entries, estimatedHours }) => {
+  const points = useMemo<ChartPoint[]>(() => {
+    const byDate = new Map<string, { logged: number; approved: number }>();
+    entries
+      .filter(e => e.status !== TimesheetStatus.REJECTED)
+      .forEach(e => {
+        const day = byDate.get(e.work_date) || { logged: 0, approved: 0 };
+        day.logged += Number(e.hours);
+        if (e.status === TimesheetStatus.APPROVED) day.approved += Number(e.hours);
+        byDate.set(e.work_date, day);
+      });
+
+    let logged = 0;
+    let approved = 0;
+    return Array.from(byDate.keys()).sort().map(date => {
+      logged += byDate.get(date)!.logged;
+      approved += byDate.get(date)!.approved;
+      return { date, logged: roundHours(logged), approved: roundHours(approved) };
+    });
+  }, [entries]);
+
+  const totalLogged = points.length ? points[points.length - 1].logged : 0;
+  const totalApproved = points.length ? points[points.length - 1].approved : 0;
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No hours logged yet{estimatedHours ? ` (estimate: ${estimatedHours} h)` : ''}.</p>;
+  }
+
+  const maxHours = Math.max(totalLogged, estimatedHours || 0) * 1.1 || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (hours: number) => PADDING.top + plotHeight - (hours / maxHours) * plotHeight;
+  const line = (key: 'logged' | 'approved') => points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p[key])}`).join(' ');
+  const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm mb-2">
+        <span className="text-gray-700"><strong>{totalLogged}</strong> h logged</span>
+        <span className="text-green-700"><strong>{totalApproved}</strong> h approved</span>
+        {estimatedHours ? (
+          <span className={totalLogged > estimatedHours ? 'text-red-600' : 'text-gray-500'}>
+            {Math.round((totalLogged / estimatedHours) * 100)}% of the {estimatedHours} h estimate
+          </span>
+        ) : (
+          <span className="text-gray-500">No estimate set</span>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${totalLogged} hours logged${estimatedHours ? ` of ${estimatedHours} estimated` : ''}`}>
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} stroke="#d1d5db" />
+        <text x={PADDING.left - 6} y={y(0)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">0</text>
+        <text x={PADDING.left - 6} y={y(maxHours / 1.1)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">{Math.round(maxHours / 1.1)}</text>
+        {!!estimatedHours && (
+          <g>
+            <line x1={PADDING.left} y1={y(estimatedHours)} x2={WIDTH - PADDING.right} y2={y(estimatedHours)} stroke="#f97316" strokeDasharray="6 4" />
+            <text x={WIDTH - PADDING.right} y={y(estimatedHours) - 4} textAnchor="end" fontSize="10" fill="#ea580c">Estimate</text>
+          </g>
+        )}
+        <path d={line('logged')} fill="none" stroke="#9ca3af" strokeWidth="2" />
+        <path d={line('approved')} fill="none" stroke="#16a34a" strokeWidth="2" />
+        {points.map((p, i) => <circle key={p.date} cx={x(i)} cy={y(p.logged)} r="2.5" fill="#6b7280"><title>{`${formatDay(p.date)}: ${p.logged} h logged, ${p.approved} h approved`}</title></circle>)}
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize="10" fill="#6b7280">{formatDay(points[0].date)}</text>
+        {points.length > 1 && <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="#6b7280">{formatDay(points[points.length - 1].date)}</text>}
+      </svg>
+      <div className="flex gap-4 text-xs text-gray-500 mt-1">
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-gray-400 mr-1" />Logged</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-green-600 mr-1" />Approved</span>
+        {!!estimatedHours && <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-orange-500 mr-1" />Estimate</span>}
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetHoursChart;
@@ -0,0 +1,325 @@
+// components/projects/TimesheetPanel.tsx
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { CompensationModel, LOCKED_MILESTONE_STATUSES, MilestoneTimesheetSummary, NotificationType, Project, TimesheetEntry, TimesheetStatus } from '../../types.ts';
+import { getTimesheetEntriesForProject, getMilestoneTimesheetSummary, logTimesheetEntry, updateTimesheetEntry, deleteTimesheetEntry, reviewTimesheetEntries } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { formatCurrency } from '../../lib/currency.ts';
+import TimesheetHoursChart from './TimesheetHoursChart.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import Input from '../ui/Input.tsx';
+import Select from '../ui/Select.tsx';
+import { CheckCircle, Clock, Edit3, PlusCircle, Trash2, XCircle } from 'lucide-react';
+
+interface TimesheetPanelProps {
+  project: Project;
+  isOwner: boolean; // Reviews every contributor's hours; contributors log and see only their own
+}
+
+const STATUS_STYLES: Record<TimesheetStatus, string> = {
+  [TimesheetStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
+  [TimesheetStatus.APPROVED]: 'bg-green-100 text-green-800',
+  [TimesheetStatus.REJECTED]: 'bg-red-100 text-red-800',
+};
+
+const MAX_DESCRIPTION_LENGTH = 1000; // Matches the CHECK on timesheet_entries.description
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const TimesheetPanel: React.FC<TimesheetPanelProps> = ({ project, isOwner }) => {
+  const { addNotification } = useNotifications();
+
+  const [entries, setEntries] = useState<TimesheetEntry[]>([]);
+  const [summary, setSummary] = useState<MilestoneTimesheetSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLogging, setIsLogging] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reviewComments, setReviewComments] = useState('');
+
+  const openMilestones = useMemo(
+    () => (project.milestones || []).filter(m => !LOCKED_MILESTONE_STATUSES.includes(m.status)),
+    [project.milestones]
+  );
+  const [milestoneId, setMilestoneId] = useState(openMilestones[0]?.id || '');
+  const [workDate, setWorkDate] = useState(today());
+  const [hours, setHours] = useState('');
+  const [description, setDescription] = useState('');
+  const [editingEntryId, setEditingEntryId] = useState<string | null>(null); // Pending entry loaded into the form
+
+  const milestoneDescription = (id: string) => project.milestones?.find(m => m.id === id)?.description || 'Milestone';
+  const contributorName = (id: string) => entries.find(e => e.contributor_user_id === id)?.contributor_user?.name || 'Contributor';
+
+  const loadTimesheets = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [entriesRes, summaryRes] = await Promise.all([
+        getTimesheetEntriesForProject(project.id),
+        getMilestoneTimesheetSummary(project.id),
+      ]);
+      if (entriesRes.error) throw entriesRes.error;
+      if (summaryRes.error) throw summaryRes.error;
+      setEntries(entriesRes.data || []);
+      setSummary(summaryRes.data || []);
+      setSelectedIds([]);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load timesheets.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [project.id, addNotification]);
+
+  useEffect(() => {
+    loadTimesheets();
+  }, [loadTimesheets]);
+
+  const handleLogHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(hours);
+    if (!milestoneId) {
+      addNotification('Choose the milestone you worked on.', NotificationType.WARNING);
+      return;
+    }
+    if (!(value > 0 && value <= 24)) {
+      addNotification('Enter between 0 and 24 hours.', NotificationType.WARNING);
+      return;
+    }
+    setIsLogging(true);
+    try {
+      const input = {
+        milestone_id: milestoneId,
+        work_date: workDate || today(),
+        hours: value,
+        description: description.trim() || null,
+      };
+      const { error } = editingEntryId ? await updateTimesheetEntry(editingEntryId, input) : await logTimesheetEntry(input);
+      if (error) {
+        if (error.code === '23505') throw new Error('You already logged hours for this milestone on that day. Edit that entry instead.');
+        if (error.code === 'PGRST116') throw new Error('This entry has already been reviewed and can no longer be changed.');
+        throw error;
+      }
+      addNotification(editingEntryId ? 'Entry updated.' : 'Hours logged.', NotificationType.SUCCESS);
+      resetForm();
+      await loadTimesheets();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to log hours.', NotificationType.ERROR);
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  const startEditing = (entry: TimesheetEntry) => {
+    setEditingEntryId(entry.id);
+    setMilestoneId(entry.milestone_id);
+    setWorkDate(entry.work_date);
+    setHours(String(Number(entry.hours)));
+    setDescription(entry.description || '');
+  };
+
+  const resetForm = () => {
+    setEditingEntryId(null);
+    setHours('');
+    setDescription('');
+  };
+
+  const handleDelete = async (entryId: string) => {
+    try {
+      const { error } = await deleteTimesheetEntry(entryId);
+      if (error) throw error;
+      if (entryId === editingEntryId) resetForm();
+      await loadTimesheets();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to delete the entry.', NotificationType.ERROR);
+    }
+  };
+
+  const handleReview = async (decision: TimesheetStatus.APPROVED | TimesheetStatus.REJECTED) => {
+    if (selectedIds.length === 0) return;
+    setIsReviewing(true);
+    try {
+      const { error } = await reviewTimesheetEntries(selectedIds, decision, reviewComments.trim() || undefined);
+      if (error) throw error;
+      addNotification(`${selectedIds.length} ${selectedIds.length === 1 ? 'entry' : 'entries'} ${decision}.`, NotificationType.SUCCESS);
+      setReviewComments('');
+      await loadTimesheets();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to review the entries.', NotificationType.ERROR);
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const pendingIds = entries.filter(e => e.status === TimesheetStatus.PENDING).map(e => e.id);
+  const toggleSelected = (entryId: string) =>
+    setSelectedIds(prev => (prev.includes(entryId) ? prev.filter(id => id !== entryId) : [...prev, entryId]));
+
+  const payoutRows = project.compensation_model === CompensationModel.STIPEND
+    ? summary.filter(row => Number(row.approved_hours) > 0)
+    : [];
+
+  if (isLoading) {
+    return <div className="flex justify-center py-4"><Spinner /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <TimesheetHoursChart entries={entries} estimatedHours={project.estimated_hours} />
+
+      {!isOwner && (
+        openMilestones.length === 0 ? (
+          <p className="text-sm text-gray-500">All milestones are settled; no more hours can be logged.</p>
+        ) : (
+          <form onSubmit={handleLogHours} className="p-3 border border-gray-200 rounded-md bg-gray-50 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Select name="timesheetMilestone" label="Milestone" value={milestoneId} onChange={(e) => setMilestoneId(e.target.value)} containerClassName="mb-0">
+                {openMilestones.map(m => <option key={m.id} value={m.id}>{m.description}</option>)}
+              </Select>
+              <Input
+                name="timesheetDate"
+                label="Date"
+                type="date"
+                max={today()}
+                value={workDate}
+                onChange={(e) => setWorkDate(e.target.value)}
+                containerClassName="mb-0"
+              />
+              <Input
+                name="timesheetHours"
+                label="Hours"
+                type="number"
+                step="0.25"
+                min="0.25"
+                max="24"
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+                placeholder="e.g., 3.5"
+                containerClassName="mb-0"
+              />
+            </div>
+            <Input
+              name="timesheetDescription"
+              label="What did you work on? (optional)"
+              value={description}
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              onChange={(e) => setDescription(e.target.value)}
+              containerClassName="mb-0"
+            />
+            <div className="flex justify-end space-x-2">
+              {editingEntryId && <Button type="button" size="sm" variant="ghost" onClick={resetForm} disabled={isLogging}>Cancel</Button>}
+              <Button type="submit" size="sm" isLoading={isLogging} leftIcon={editingEntryId ? <Edit3 size={14}/> : <PlusCircle size={14}/>}>
+                {editingEntryId ? 'Save Changes' : 'Log Hours'}
+              </Button>
+            </div>
+          </form>
+        )
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">{isOwner ? 'Contributors have not logged any hours yet.' : 'You have not logged any hours yet.'}</p>
+      ) : (
+        <div>
+          {isOwner && pendingIds.length > 0 && (
+            <div className="flex flex-col md:flex-row md:items-end gap-2 mb-3">
+              <Input
+                name="timesheetReviewComments"
+                label="Review comment (optional)"
+                value={reviewComments}
+                onChange={(e) => setReviewComments(e.target.value)}
+                containerClassName="mb-0 flex-grow"
+              />
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds(selectedIds.length === pendingIds.length ? [] : pendingIds)}>
+                {selectedIds.length === pendingIds.length ? 'Clear selection' : 'Select all pending'}
+              </Button>
+              <Button size="sm" variant="primary" onClick={() => handleReview(TimesheetStatus.APPROVED)} isLoading={isReviewing} disabled={selectedIds.length === 0} leftIcon={<CheckCircle size={14}/>}>Approve</Button>
+              <Button size="sm" variant="danger" onClick={() => handleReview(TimesheetStatus.REJECTED)} disabled={selectedIds.length === 0 || isReviewing} leftIcon={<XCircle size={14}/>}>Reject</Button>
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {isOwner && <th scope="col" className="px-3 py-2" />}
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  {isOwner && <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contributor</th>}
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Milestone</th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</th>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  {!isOwner && <th scope="col" className="px-3 py-2" />}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    {isOwner && (
+                      <td className="px-3 py-2">
+                        {entry.status === TimesheetStatus.PENDING && (
+                          <input type="checkbox" checked={selectedIds.includes(entry.id)} onChange={() => toggleSelected(entry.id)} aria-label="Select entry" />
+                        )}
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{new Date(`${entry.work_date}T00:00:00`).toLocaleDateString()}</td>
+                    {isOwner && <td className="px-3 py-2 text-gray-700">{entry.contributor_user?.name || 'Contributor'}</td>}
+                    <td className="px-3 py-2 text-gray-700">
+                      {milestoneDescription(entry.milestone_id)}
+                      {entry.description && <p className="text-xs text-gray-500">{entry.description}</p>}
+                      {entry.review_comments && <p className="text-xs text-gray-500 italic">Lead: {entry.review_comments}</p>}
+                    </td>
+                    <td className="px-3 py-2 text-right font-mono text-gray-800">{Number(entry.hours)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                    </td>
+                    {!isOwner && (
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {entry.status === TimesheetStatus.PENDING && (
+                          <Button size="sm" variant="ghost" onClick={() => startEditing(entry)} disabled={entry.id === editingEntryId} leftIcon={<Edit3 size={14}/>}>Edit</Button>
+                        )}
+                        {entry.status !== TimesheetStatus.APPROVED && (
+                          <Button size="sm" variant="ghost" onClick={() => handleDelete(entry.id)} className="text-red-500 hover:bg-red-100" leftIcon={<Trash2 size={14}/>}>Delete</Button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {payoutRows.length > 0 && (
+        <div>
+          <h3 className="text-md font-semibold text-gray-700 mb-1 flex items-center"><Clock size={16} className="mr-2 text-gray-500" />Suggested payouts</h3>
+          <p className="text-xs text-gray-500 mb-2">Approved hours at the hourly rate each contributor proposed when applying. For guidance only; milestone amounts are not changed.</p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Milestone</th>
+                  {isOwner && <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contributor</th>}
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Approved hours</th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Suggested</th>
+                  <th scope="col" className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Milestone amount</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {payoutRows.map(row => (
+                  <tr key={`${row.milestone_id}-${row.contributor_user_id}`}>
+                    <td className="px-3 py-2 text-gray-700">{milestoneDescription(row.milestone_id)}</td>
+                    {isOwner && <td className="px-3 py-2 text-gray-700">{contributorName(row.contributor_user_id)}</td>}
+                    <td className="px-3 py-2 text-right font-mono text-gray-800">{Number(row.approved_hours)}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{row.proposed_rate != null ? `${formatCurrency(row.proposed_rate, row.currency)}/h` : 'No rate proposed'}</td>
+                    <td className="px-3 py-2 text-right font-semibold text-gray-800">{row.suggested_amount != null ? formatCurrency(row.suggested_amount, row.currency) : '-'}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{formatCurrency(row.milestone_amount, row.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimesheetPanel;
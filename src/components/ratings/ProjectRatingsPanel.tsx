@@ -0,0 +1,131 @@
+// components/ratings/ProjectRatingsPanel.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { NotificationType, Rating, RatingInput, UserProfile, getRatingAverage } from '../../types.ts';
+import { getMyRatingsForProject, createRating, updateRating, deleteRating } from '../../services/apiService.ts';
+import { useNotifications } from '../../hooks/useNotifications.ts';
+import { RATING_EDIT_WINDOW_DAYS } from '../../constants.ts';
+import RatingStars from './RatingStars.tsx';
+import RatingForm from './RatingForm.tsx';
+import Spinner from '../ui/Spinner.tsx';
+import Button from '../ui/Button.tsx';
+import { Edit3, Star, Trash2 } from 'lucide-react';
+
+interface ProjectRatingsPanelProps {
+  projectId: string;
+  ratees: Pick<UserProfile, 'id' | 'name'>[]; // The lead rates accepted contributors; contributors rate the lead
+}
+
+// Mirrors the RLS check so the buttons disappear once the database would refuse the change.
+const isEditable = (rating: Rating) =>
+  !!rating.created_at && Date.now() - new Date(rating.created_at).getTime() < RATING_EDIT_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+const ProjectRatingsPanel: React.FC<ProjectRatingsPanelProps> = ({ projectId, ratees }) => {
+  const { addNotification } = useNotifications();
+
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadRatings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await getMyRatingsForProject(projectId);
+      if (error) throw error;
+      setRatings(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load your ratings.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, addNotification]);
+
+  useEffect(() => {
+    loadRatings();
+  }, [loadRatings]);
+
+  const handleSubmit = async (ratedUserId: string, input: RatingInput, existing?: Rating) => {
+    try {
+      const { data, error } = existing
+        ? await updateRating(existing.id, input)
+        : await createRating(projectId, ratedUserId, input);
+      if (error) throw error;
+      if (data) setRatings(prev => [...prev.filter(r => r.id !== data.id), data]);
+      setEditingUserId(null);
+      addNotification(existing ? 'Rating updated.' : 'Thanks for your rating!', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to save rating: ${err.message}`, NotificationType.ERROR);
+      throw err;
+    }
+  };
+
+  const handleDelete = async (rating: Rating) => {
+    if (!window.confirm('Delete this rating? You can rate again afterwards.')) return;
+    setDeletingId(rating.id);
+    try {
+      const { data, error } = await deleteRating(rating.id);
+      if (error) throw error;
+      if (!data?.length) throw new Error(`Ratings can only be deleted within ${RATING_EDIT_WINDOW_DAYS} days.`);
+      setRatings(prev => prev.filter(r => r.id !== rating.id));
+      addNotification('Rating deleted.', NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to delete rating: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) return <div className="flex justify-center py-4"><Spinner /></div>;
+
+  if (ratees.length === 0) {
+    return <p className="text-sm text-gray-500">There is nobody to rate on this project.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {ratees.map(ratee => {
+        const rating = ratings.find(r => r.rated_user_id === ratee.id);
+        const name = ratee.name || 'Contributor';
+        return (
+          <div key={ratee.id} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-800">{name}</p>
+                {rating ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <RatingStars value={getRatingAverage(rating)} />
+                    <span>Rated {new Date(rating.created_at!).toLocaleDateString()}</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Not rated yet</p>
+                )}
+              </div>
+              {editingUserId !== ratee.id && (
+                !rating ? (
+                  <Button size="sm" variant="primary" onClick={() => setEditingUserId(ratee.id)} leftIcon={<Star size={14}/>}>Rate</Button>
+                ) : isEditable(rating) && (
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditingUserId(ratee.id)} leftIcon={<Edit3 size={14}/>}>Edit</Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(rating)} isLoading={deletingId === rating.id} leftIcon={<Trash2 size={14}/>}>Delete</Button>
+                  </div>
+                )
+              )}
+            </div>
+            {rating?.comments && editingUserId !== ratee.id && <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{rating.comments}</p>}
+            {editingUserId === ratee.id && (
+              <RatingForm
+                ratedUserName={name}
+                initialRating={rating}
+                onSubmit={(input) => handleSubmit(ratee.id, input, rating)}
+                onCancel={() => setEditingUserId(null)}
+              />
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">Ratings appear on the rated person's profile and can be changed for {RATING_EDIT_WINDOW_DAYS} days.</p>
+    </div>
+  );
+};
+
+export default ProjectRatingsPanel;
@@ -0,0 +1,81 @@
+// components/ratings/RatingForm.tsx
+import React from 'react';
+import { Controller, SubmitHandler, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Rating, RatingInput, RatingSchema } from '../../types.ts';
+import RatingStars from './RatingStars.tsx';
+import Textarea from '../ui/Textarea.tsx';
+import Button from '../ui/Button.tsx';
+import { Save } from 'lucide-react';
+
+interface RatingFormProps {
+  ratedUserName: string;
+  initialRating?: Rating; // Set when editing an existing rating
+  onSubmit: (rating: RatingInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const SCORE_FIELDS: { name: 'communication_rating' | 'quality_rating' | 'timeliness_rating'; label: string }[] = [
+  { name: 'communication_rating', label: 'Communication' },
+  { name: 'quality_rating', label: 'Quality of work' },
+  { name: 'timeliness_rating', label: 'Timeliness' },
+];
+
+const RatingForm: React.FC<RatingFormProps> = ({ ratedUserName, initialRating, onSubmit, onCancel }) => {
+  const { control, register, handleSubmit, formState: { errors, isSubmitting } } = useForm<RatingInput>({
+    resolver: zodResolver(RatingSchema),
+    defaultValues: {
+      communication_rating: initialRating?.communication_rating,
+      quality_rating: initialRating?.quality_rating,
+      timeliness_rating: initialRating?.timeliness_rating,
+      comments: initialRating?.comments || '',
+    },
+  });
+
+  const submit: SubmitHandler<RatingInput> = async (data) => {
+    try {
+      await onSubmit({ ...data, comments: data.comments?.trim() });
+    } catch {
+      // Already reported by the caller; keep the form open.
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50">
+      <p className="text-sm font-medium text-gray-700 mb-2">How was working with {ratedUserName}?</p>
+      <div className="space-y-2 mb-3">
+        {SCORE_FIELDS.map(field => (
+          <div key={field.name}>
+            <div className="flex items-center justify-between max-w-sm">
+              <span className="text-sm text-gray-600">{field.label}</span>
+              <Controller
+                name={field.name}
+                control={control}
+                render={({ field: { value, onChange } }) => (
+                  <RatingStars value={value} onChange={onChange} size={20} label={field.label} />
+                )}
+              />
+            </div>
+            {errors[field.name] && <p className="text-xs text-red-600">{errors[field.name]?.message}</p>}
+          </div>
+        ))}
+      </div>
+      <Textarea
+        label="Review (optional)"
+        {...register('comments')}
+        error={errors.comments?.message}
+        maxLength={2000}
+        rows={3}
+        containerClassName="mb-2"
+      />
+      <div className="flex justify-end space-x-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSubmitting}>Cancel</Button>
+        <Button type="submit" size="sm" variant="primary" isLoading={isSubmitting} leftIcon={<Save size={14}/>}>
+          {initialRating ? 'Update Rating' : 'Submit Rating'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default RatingForm;
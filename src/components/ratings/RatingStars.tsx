@@ -0,0 +1,52 @@
+// components/ratings/RatingStars.tsx
+import React from 'react';
+import { Star } from 'lucide-react';
+
+interface RatingStarsProps {
+  value?: number | null; // 1-5, fractions are rounded to the nearest half star
+  size?: number;
+  onChange?: (value: number) => void; // Makes the stars clickable
+  label?: string; // Accessible name of the clickable group
+}
+
+// Five stars for showing a score, or picking one when onChange is given.
+const RatingStars: React.FC<RatingStarsProps> = ({ value, size = 16, onChange, label }) => {
+  const rounded = Math.round((value || 0) * 2) / 2;
+
+  if (!onChange) {
+    return (
+      <span className="inline-flex items-center" aria-label={value ? `${Number(value).toFixed(1)} out of 5` : 'Not rated'}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <span key={star} className="relative inline-block" style={{ width: size, height: size }}>
+            <Star size={size} className="absolute text-gray-300" />
+            {rounded >= star - 0.5 && (
+              <span className="absolute overflow-hidden" style={{ width: rounded >= star ? size : size / 2 }}>
+                <Star size={size} className="text-yellow-400 fill-current" />
+              </span>
+            )}
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center" role="radiogroup" aria-label={label}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          onClick={() => onChange(star)}
+          className="p-0.5 focus:outline-none focus:ring-2 focus:ring-primary rounded"
+        >
+          <Star size={size} className={(value || 0) >= star ? 'text-yellow-400 fill-current' : 'text-gray-300 hover:text-yellow-300'} />
+        </button>
+      ))}
+    </span>
+  );
+};
+
+export default RatingStars;
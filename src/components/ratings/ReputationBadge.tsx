@@ -0,0 +1,77 @@
+// components/ratings/ReputationBadge.tsx
+import React from 'react';
+import { UserReputation } from '../../types.ts';
+import { CheckCircle, Clock, ShieldCheck, Star, XCircle } from 'lucide-react';
+
+interface ReputationBadgeProps {
+  reputation?: UserReputation | null;
+  detailed?: boolean; // Full breakdown for the profile page; otherwise a one-line summary for cards
+}
+
+const scoreStyle = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-800' : score >= 60 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+
+const onTimePercent = (reputation: UserReputation) =>
+  reputation.milestones_delivered ? Math.round((reputation.milestones_on_time / reputation.milestones_delivered) * 100) : null;
+
+// Trust signal built from the user_reputation summary: score, average rating, completions and reliability.
+const ReputationBadge: React.FC<ReputationBadgeProps> = ({ reputation, detailed = false }) => {
+  if (!reputation || reputation.score == null) {
+    return detailed
+      ? <p className="text-gray-500 italic">No track record on the platform yet.</p>
+      : <span className="inline-flex items-center text-xs text-gray-500"><ShieldCheck size={12} className="mr-1" />New member</span>;
+  }
+
+  const onTime = onTimePercent(reputation);
+
+  if (!detailed) {
+    return (
+      <span className="inline-flex flex-wrap items-center gap-x-2 text-xs text-gray-600" title="Reputation score out of 100">
+        <span className={`inline-flex items-center px-1.5 py-0.5 rounded font-semibold ${scoreStyle(reputation.score)}`}>
+          <ShieldCheck size={12} className="mr-1" />{reputation.score}
+        </span>
+        {reputation.rating_avg != null && (
+          <span className="inline-flex items-center">
+            <Star size={12} className="mr-0.5 text-yellow-400 fill-current" />
+            {Number(reputation.rating_avg).toFixed(1)} ({reputation.rating_count})
+          </span>
+        )}
+        <span>{reputation.completed_projects} completed</span>
+        {onTime != null && <span>{onTime}% on time</span>}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+      <div className={`text-center px-6 py-3 rounded-lg ${scoreStyle(reputation.score)}`}>
+        <p className="text-3xl font-bold">{reputation.score}</p>
+        <p className="text-xs uppercase tracking-wide">out of 100</p>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
+        <div className="flex items-center">
+          <Star size={16} className="mr-2 text-yellow-400 fill-current" />
+          <dt className="sr-only">Average rating</dt>
+          <dd>{reputation.rating_avg != null ? `${Number(reputation.rating_avg).toFixed(1)} average from ${reputation.rating_count} rating${reputation.rating_count === 1 ? '' : 's'}` : 'Not rated yet'}</dd>
+        </div>
+        <div className="flex items-center">
+          <CheckCircle size={16} className="mr-2 text-green-600" />
+          <dt className="sr-only">Completed projects</dt>
+          <dd>{reputation.completed_projects} completed project{reputation.completed_projects === 1 ? '' : 's'}</dd>
+        </div>
+        <div className="flex items-center">
+          <Clock size={16} className="mr-2 text-blue-600" />
+          <dt className="sr-only">On-time delivery</dt>
+          <dd>{onTime != null ? `${onTime}% of ${reputation.milestones_delivered} milestone${reputation.milestones_delivered === 1 ? '' : 's'} on time` : 'No dated milestones delivered'}</dd>
+        </div>
+        <div className="flex items-center">
+          <XCircle size={16} className="mr-2 text-gray-500" />
+          <dt className="sr-only">Withdrawn or cancelled</dt>
+          <dd>{reputation.withdrawn_or_cancelled} withdrawn or cancelled</dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
+
+export default ReputationBadge;
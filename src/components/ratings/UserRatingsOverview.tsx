@@ -0,0 +1,97 @@
+// components/ratings/UserRatingsOverview.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Rating, UserRatingSummary, getRatingAverage } from '../../types.ts';
+import { getRatingsForUser, getRatingSummaryForUser } from '../../services/apiService.ts';
+import RatingStars from './RatingStars.tsx';
+import Spinner from '../ui/Spinner.tsx';
+
+interface UserRatingsOverviewProps {
+  userId: string;
+}
+
+const AVERAGES: { key: 'communication_avg' | 'quality_avg' | 'timeliness_avg'; label: string }[] = [
+  { key: 'communication_avg', label: 'Communication' },
+  { key: 'quality_avg', label: 'Quality of work' },
+  { key: 'timeliness_avg', label: 'Timeliness' },
+];
+
+// Aggregate scores and individual reviews a user has received on completed projects.
+const UserRatingsOverview: React.FC<UserRatingsOverviewProps> = ({ userId }) => {
+  const [summary, setSummary] = useState<UserRatingSummary | null>(null);
+  const [ratings, setRatings] = useState<Rating[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadRatings = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [summaryRes, ratingsRes] = await Promise.all([getRatingSummaryForUser(userId), getRatingsForUser(userId)]);
+        if (summaryRes.error) throw summaryRes.error;
+        if (ratingsRes.error) throw ratingsRes.error;
+        if (cancelled) return;
+        setSummary(summaryRes.data);
+        setRatings(ratingsRes.data || []);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Failed to load ratings.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadRatings();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  if (isLoading) return <div className="flex justify-center py-4"><Spinner /></div>;
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+
+  if (!summary?.rating_count) {
+    return <p className="text-gray-500 italic">No ratings yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="text-center sm:pr-6 sm:border-r">
+          <p className="text-4xl font-bold text-gray-800">{Number(summary.overall_avg).toFixed(1)}</p>
+          <RatingStars value={summary.overall_avg} size={18} />
+          <p className="text-sm text-gray-500 mt-1">{summary.rating_count} rating{summary.rating_count === 1 ? '' : 's'}</p>
+        </div>
+        <div className="space-y-1">
+          {AVERAGES.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3 text-sm">
+              <span className="w-32 text-gray-600">{label}</span>
+              <RatingStars value={summary[key]} />
+              <span className="text-gray-500">{summary[key] != null ? Number(summary[key]).toFixed(1) : '–'}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {ratings.map(rating => (
+          <li key={rating.id} className="py-3">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <RatingStars value={getRatingAverage(rating)} />
+              <Link to={`/profile/${rating.rated_by_user_id}`} className="font-medium text-primary hover:underline">
+                {rating.rated_by_user?.name || 'Former user'}
+              </Link>
+              {rating.project && (
+                <span className="text-gray-500">
+                  on <Link to={`/projects/${rating.project.id}`} className="hover:underline">{rating.project.title}</Link>
+                </span>
+              )}
+              <span className="text-gray-400">{new Date(rating.created_at!).toLocaleDateString()}</span>
+            </div>
+            {rating.comments && <p className="mt-1 text-gray-600 whitespace-pre-line">{rating.comments}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UserRatingsOverview;
@@ -1,4 +1,6 @@
 
+import { CredentialKind, CreditRole, NotificationTypeEnum } from './types.ts';
+
 // Fallback to an empty string if the environment variable is not set.
 // In a Next.js app, this would be process.env.NEXT_PUBLIC_UNIVERSITY_EMAIL_DOMAINS
 // For a simple SPA, you might need a different way to set this or hardcode for demo.
@@ -14,4 +16,56 @@ export const ALLOWED_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png',
 
 export const APP_NAME = "ResearchCollab";
 
-export const PAGINATION_PAGE_SIZE = 10;
\ No newline at end of file
+export const PAGINATION_PAGE_SIZE = 10;
+
+// Project chat loads this many messages per page and keeps at most CHAT_MAX_LOADED_MESSAGES in memory,
+// dropping pages at the far end as the reader scrolls.
+export const CHAT_PAGE_SIZE = 30;
+export const CHAT_MAX_LOADED_MESSAGES = 300;
+
+// Authors can edit or delete a chat message for this long after sending it (public.message_edit_window()).
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+// A typist re-announces itself at most every TYPING_BROADCAST_INTERVAL_MS and is shown as typing until
+// TYPING_INDICATOR_TIMEOUT_MS after its last announcement, so a closed tab never leaves a stale indicator.
+export const TYPING_BROADCAST_INTERVAL_MS = 2000;
+export const TYPING_INDICATOR_TIMEOUT_MS = 5000;
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationTypeEnum, string> = {
+  [NotificationTypeEnum.NEW_APPLICATION]: 'New applications',
+  [NotificationTypeEnum.APPLICATION_STATUS_UPDATE]: 'Application status updates',
+  [NotificationTypeEnum.PROJECT_MILESTONE_UPDATE]: 'Milestone updates',
+  [NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT]: 'New project chat messages',
+  [NotificationTypeEnum.PROJECT_FUNDED]: 'Milestone payments',
+  [NotificationTypeEnum.GENERIC_SYSTEM_UPDATE]: 'Project status and system updates',
+  [NotificationTypeEnum.CHAT_THREAD_REPLY]: 'Replies to your chat messages',
+};
+// ISO 4217 codes a project can be budgeted in. The university pays in ETB; some grants pay in USD.
+export const SUPPORTED_CURRENCIES: string[] = ['ETB', 'USD', 'EUR', 'GBP'];
+export const DEFAULT_CURRENCY: string = import.meta.env.VITE_DEFAULT_CURRENCY || 'USD';
+
+// Ratings can be edited or deleted for this long after they were given (public.rating_edit_window()).
+export const RATING_EDIT_WINDOW_DAYS = 14;
+
+export const CREDENTIAL_KIND_LABELS: Record<CredentialKind, string> = {
+  [CredentialKind.CERTIFICATE]: 'Certificate of Contribution',
+  [CredentialKind.RECOMMENDATION_LETTER]: 'Letter of Recommendation',
+};
+
+// Official CRediT role names, as they should appear in author-contribution statements.
+export const CREDIT_ROLE_LABELS: Record<CreditRole, string> = {
+  [CreditRole.CONCEPTUALIZATION]: 'Conceptualization',
+  [CreditRole.DATA_CURATION]: 'Data curation',
+  [CreditRole.FORMAL_ANALYSIS]: 'Formal analysis',
+  [CreditRole.FUNDING_ACQUISITION]: 'Funding acquisition',
+  [CreditRole.INVESTIGATION]: 'Investigation',
+  [CreditRole.METHODOLOGY]: 'Methodology',
+  [CreditRole.PROJECT_ADMINISTRATION]: 'Project administration',
+  [CreditRole.RESOURCES]: 'Resources',
+  [CreditRole.SOFTWARE]: 'Software',
+  [CreditRole.SUPERVISION]: 'Supervision',
+  [CreditRole.VALIDATION]: 'Validation',
+  [CreditRole.VISUALIZATION]: 'Visualization',
+  [CreditRole.WRITING_ORIGINAL_DRAFT]: 'Writing – original draft',
+  [CreditRole.WRITING_REVIEW_EDITING]: 'Writing – review & editing',
+};
@@ -1,6 +1,6 @@
 // contexts/NotificationCenterContext.tsx
 import React, { createContext, useState, useEffect, useCallback, ReactNode, useContext } from 'react';
-import { AppNotification } from '../types.ts'; // Ensure this path is correct
+import { AppNotification, NotificationType } from '../types.ts'; // Ensure this path is correct
 import { 
     getAppNotificationsForUser, 
     getUnreadNotificationsCount, 
@@ -8,6 +8,8 @@ import {
     markAllUserNotificationsAsRead 
 } from '../services/apiService.ts'; // Ensure this path is correct
 import { useAuth } from '../hooks/useAuth.ts'; 
+import { useNotifications } from '../hooks/useNotifications.ts';
+import { supabase } from '../lib/supabaseClient.ts';
 
 interface NotificationCenterContextType {
   notifications: AppNotification[];
@@ -25,12 +27,14 @@ const NotificationCenterContext = createContext<NotificationCenterContextType |
 
 interface NotificationCenterProviderProps {
   children: ReactNode;
+  showToastOnNew?: boolean; // Also surface realtime notifications as a toast (requires NotificationProvider above)
 }
 
 const NOTIFICATIONS_PER_PAGE = 10;
 
-export const NotificationCenterProvider: React.FC<NotificationCenterProviderProps> = ({ children }) => {
+export const NotificationCenterProvider: React.FC<NotificationCenterProviderProps> = ({ children, showToastOnNew = true }) => {
   const { user } = useAuth();
+  const { addNotification } = useNotifications();
   const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -119,6 +123,49 @@ export const NotificationCenterProvider: React.FC<NotificationCenterProviderProp
   }, [user]); // Only re-run when user object itself changes (login/logout)
   // Removed fetchNotifications from here to avoid loop, initial call is fine. refreshUnreadCount too.
 
+  // Realtime: new rows written by the fan-out triggers are pushed straight into the list,
+  // and read-state changes made in another tab/device are mirrored here.
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase.channel(`notifications-${user.id}`);
+    channel
+      .on<AppNotification>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const incoming = payload.new;
+          setNotifications(prev => prev.some(n => n.id === incoming.id) ? prev : [incoming, ...prev]);
+          if (!incoming.is_read) {
+            setUnreadCount(prev => prev + 1);
+          }
+          if (showToastOnNew) {
+            addNotification(incoming.message, NotificationType.INFO);
+          }
+        }
+      )
+      .on<AppNotification>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const updated = payload.new;
+          setNotifications(prev => updated.is_archived
+            ? prev.filter(n => n.id !== updated.id)
+            : prev.map(n => n.id === updated.id ? { ...n, ...updated } : n));
+          refreshUnreadCount();
+        }
+      )
+      .subscribe((_status, err) => {
+        if (err) {
+          console.error("Error subscribing to notifications:", err);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, showToastOnNew, addNotification, refreshUnreadCount]);
+
   const handleMarkAsRead = async (notificationId: string) => {
     const originalNotifications = [...notifications];
     // Optimistically update UI
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Message, NotificationType } from '../types.ts';
+import { getMessagesForProject } from '../services/apiService.ts';
+import { CHAT_MAX_LOADED_MESSAGES, CHAT_PAGE_SIZE } from '../constants.ts';
+import { useNotifications } from './useNotifications.ts';
+
+interface MessageWindow {
+  messages: Message[]; // Oldest first
+  hasOlder: boolean;
+  hasNewer: boolean; // False while the window ends at the latest message
+}
+
+const EMPTY_WINDOW: MessageWindow = { messages: [], hasOlder: false, hasNewer: false };
+
+// A sliding window over a project's chat history. Pages are fetched with a (created_at, id) cursor in
+// either direction; once more than CHAT_MAX_LOADED_MESSAGES are loaded, the far end is dropped again.
+export function useProjectMessages(projectId: string | undefined, enabled: boolean) {
+  const { addNotification } = useNotifications();
+  const [messageWindow, setMessageWindow] = useState<MessageWindow>(EMPTY_WINDOW);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingDirection, setLoadingDirection] = useState<'older' | 'newer' | null>(null);
+
+  // Read by loadPage without making it change on every page.
+  const windowRef = useRef(messageWindow);
+  windowRef.current = messageWindow;
+  const isPagingRef = useRef(false);
+
+  const loadLatest = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    try {
+      const { data, error } = await getMessagesForProject(projectId);
+      if (error) throw error;
+      setMessageWindow({ messages: data || [], hasOlder: (data?.length || 0) === CHAT_PAGE_SIZE, hasNewer: false });
+    } catch (err: any) {
+      console.error("Error fetching messages:", err);
+      addNotification('Failed to load chat messages.', NotificationType.WARNING);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, addNotification]);
+
+  useEffect(() => {
+    if (enabled) {
+      loadLatest();
+    } else {
+      setMessageWindow(EMPTY_WINDOW);
+    }
+  }, [enabled, loadLatest]);
+
+  const loadPage = useCallback(async (direction: 'older' | 'newer') => {
+    const { messages, hasOlder, hasNewer } = windowRef.current;
+    const edge = direction === 'older' ? messages[0] : messages[messages.length - 1];
+    if (!projectId || !edge || isPagingRef.current || !(direction === 'older' ? hasOlder : hasNewer)) return;
+
+    isPagingRef.current = true;
+    setLoadingDirection(direction);
+    try {
+      const { data, error } = await getMessagesForProject(projectId, { cursor: { created_at: edge.created_at, id: edge.id }, direction });
+      if (error) throw error;
+      const page = data || [];
+      const isFullPage = page.length === CHAT_PAGE_SIZE;
+
+      setMessageWindow(prev => {
+        const loadedIds = new Set(prev.messages.map(m => m.id));
+        const fresh = page.filter(m => !loadedIds.has(m.id));
+        if (direction === 'older') {
+          const merged = [...fresh, ...prev.messages];
+          const isTrimmed = merged.length > CHAT_MAX_LOADED_MESSAGES;
+          return {
+            messages: isTrimmed ? merged.slice(0, CHAT_MAX_LOADED_MESSAGES) : merged,
+            hasOlder: isFullPage,
+            hasNewer: prev.hasNewer || isTrimmed,
+          };
+        }
+        const merged = [...prev.messages, ...fresh];
+        const isTrimmed = merged.length > CHAT_MAX_LOADED_MESSAGES;
+        return {
+          messages: isTrimmed ? merged.slice(merged.length - CHAT_MAX_LOADED_MESSAGES) : merged,
+          hasOlder: prev.hasOlder || isTrimmed,
+          hasNewer: isFullPage,
+        };
+      });
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load more messages.', NotificationType.WARNING);
+    } finally {
+      isPagingRef.current = false;
+      setLoadingDirection(null);
+    }
+  }, [projectId, addNotification]);
+
+  const loadOlder = useCallback(() => loadPage('older'), [loadPage]);
+  const loadNewer = useCallback(() => loadPage('newer'), [loadPage]);
+
+  // New messages (realtime or just sent) are appended only while the window ends at the latest message;
+  // otherwise the reader reaches them by paging forward or jumping to the latest page.
+  const receiveMessage = useCallback((message: Message) => {
+    setMessageWindow(prev => {
+      if (prev.hasNewer || prev.messages.some(m => m.id === message.id)) return prev;
+      const merged = [...prev.messages, message];
+      const isTrimmed = merged.length > CHAT_MAX_LOADED_MESSAGES;
+      return {
+        messages: isTrimmed ? merged.slice(merged.length - CHAT_MAX_LOADED_MESSAGES) : merged,
+        hasOlder: prev.hasOlder || isTrimmed,
+        hasNewer: false,
+      };
+    });
+  }, []);
+
+  // Applies a changed row (e.g. a new reply count) to a loaded message. Realtime rows carry no sender, so it is kept.
+  const updateMessage = useCallback((message: Message) => {
+    setMessageWindow(prev => {
+      if (!prev.messages.some(m => m.id === message.id)) return prev;
+      return {
+        ...prev,
+        messages: prev.messages.map(m => (m.id === message.id ? { ...m, ...message, sender_user: message.sender_user || m.sender_user } : m)),
+      };
+    });
+  }, []);
+
+  return {
+    ...messageWindow,
+    isLoading,
+    isLoadingOlder: loadingDirection === 'older',
+    isLoadingNewer: loadingDirection === 'newer',
+    loadOlder,
+    loadNewer,
+    jumpToLatest: loadLatest,
+    receiveMessage,
+    updateMessage,
+  };
+}
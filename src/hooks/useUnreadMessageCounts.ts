@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { getUnreadMessageCounts } from '../services/apiService.ts';
+import { useAuth } from './useAuth.ts';
+
+// Unread chat messages per project id for the signed-in user. Projects without unread messages are absent.
+export function useUnreadMessageCounts() {
+  const { user } = useAuth();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!user) {
+      setCounts({});
+      return;
+    }
+    let cancelled = false;
+    const loadCounts = async () => {
+      const { data, error } = await getUnreadMessageCounts();
+      if (error) {
+        // Badges are a convenience; the pages work without them.
+        console.warn(`Warning loading unread message counts: ${error.message}`);
+        return;
+      }
+      if (!cancelled) setCounts(Object.fromEntries((data || []).map(row => [row.project_id, Number(row.unread_count)])));
+    };
+    loadCounts();
+    return () => { cancelled = true; };
+  }, [user]);
+
+  return counts;
+}
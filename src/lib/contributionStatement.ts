@@ -0,0 +1,35 @@
+// lib/contributionStatement.ts
+// Author-contribution statements from confirmed CRediT roles, in the two layouts journals ask for:
+// one line per author ("Jane Doe: Conceptualization, Software.") or one line per role.
+import { CreditRole } from '../types.ts';
+import { CREDIT_ROLE_LABELS } from '../constants.ts';
+
+export type ContributionStatementStyle = 'by_author' | 'by_role';
+
+export interface ContributionStatementEntry {
+  name: string;
+  roles: CreditRole[];
+}
+
+const ROLE_ORDER = Object.values(CreditRole);
+const byTaxonomyOrder = (a: CreditRole, b: CreditRole) => ROLE_ORDER.indexOf(a) - ROLE_ORDER.indexOf(b);
+
+export const buildContributionStatement = (
+  projectTitle: string,
+  entries: ContributionStatementEntry[],
+  style: ContributionStatementStyle = 'by_author'
+): string => {
+  const withRoles = entries.filter(e => e.roles.length > 0);
+  const header = `Author contributions (CRediT) – ${projectTitle}`;
+
+  if (style === 'by_role') {
+    const lines = ROLE_ORDER
+      .map(role => ({ role, names: withRoles.filter(e => e.roles.includes(role)).map(e => e.name) }))
+      .filter(r => r.names.length > 0)
+      .map(r => `${CREDIT_ROLE_LABELS[r.role]}: ${r.names.join(', ')}.`);
+    return [header, '', ...lines].join('\n');
+  }
+
+  const lines = withRoles.map(e => `${e.name}: ${[...e.roles].sort(byTaxonomyOrder).map(r => CREDIT_ROLE_LABELS[r]).join(', ')}.`);
+  return [header, '', ...lines].join('\n');
+};
@@ -0,0 +1,74 @@
+// lib/credentials.ts
+// Starting text for certificates and recommendation letters. The lead edits the draft freely before signing;
+// the templates only pre-fill it with what the platform already knows about the collaboration.
+import { CompensationModel, CredentialInput, CredentialKind, Milestone, MilestoneSubmissionStatus, Project } from '../types.ts';
+import { CREDENTIAL_KIND_LABELS } from '../constants.ts';
+
+interface CredentialTemplateData {
+  project: Project;
+  contributorId: string;
+  contributorName: string;
+  leadName: string;
+  leadInstitution?: string;
+}
+
+// The app uses a HashRouter, so the public check lives at <origin><path>#/verify/<code>.
+export const getCredentialVerificationUrl = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}#/verify/${encodeURIComponent(code)}`;
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }) : null;
+
+// Milestones the contributor delivered: their approved submissions plus any split they were given a share of.
+export const getContributorMilestones = (project: Project, contributorId: string): Milestone[] =>
+  (project.milestones || []).filter(m =>
+    m.submissions?.some(s => s.submitted_by_user_id === contributorId && s.status === MilestoneSubmissionStatus.APPROVED) ||
+    m.allocations?.some(a => a.contributor_user_id === contributorId)
+  );
+
+const describePeriod = (project: Project) => {
+  const start = formatDate(project.start_date);
+  const end = formatDate(project.end_date);
+  if (start && end) return ` from ${start} to ${end}`;
+  if (end) return ` until ${end}`;
+  return '';
+};
+
+export const buildCredentialDraft = (kind: CredentialKind, data: CredentialTemplateData): CredentialInput => {
+  const { project, contributorId, contributorName, leadName, leadInstitution } = data;
+  const milestones = getContributorMilestones(project, contributorId);
+  const milestoneLines = milestones.length
+    ? milestones.map(m => `- ${m.description}${m.due_date ? ` (due ${formatDate(m.due_date)})` : ''}`).join('\n')
+    : '- [Describe the work delivered]';
+  const signOff = `${leadName}\nResearch Lead${leadInstitution ? `, ${leadInstitution}` : ''}`;
+
+  if (kind === CredentialKind.CERTIFICATE) {
+    return {
+      kind,
+      title: `${CREDENTIAL_KIND_LABELS[kind]}: ${project.title}`,
+      body: [
+        `This certifies that ${contributorName} contributed to the research project "${project.title}"${describePeriod(project)}.`,
+        `Their contribution included the following milestones:\n${milestoneLines}`,
+        ...(project.deliverables?.length ? [`Project deliverables:\n${project.deliverables.map(d => `- ${d}`).join('\n')}`] : []),
+        // Only co-authorship projects promise publication credit; other projects must not imply it.
+        ...(project.compensation_model === CompensationModel.CO_AUTHORSHIP
+          ? [`${contributorName} will be credited as a co-author in publications arising from this work, in line with the project's agreed terms.`]
+          : []),
+        signOff,
+      ].join('\n\n'),
+    };
+  }
+
+  return {
+    kind,
+    title: `${CREDENTIAL_KIND_LABELS[kind]} for ${contributorName}`,
+    body: [
+      'To whom it may concern,',
+      `I am pleased to recommend ${contributorName}, who worked with me on the research project "${project.title}"${describePeriod(project)}.`,
+      `During the project, ${contributorName} delivered the following:\n${milestoneLines}`,
+      '[Describe their strengths, the quality of their work and how they worked with the team.]',
+      `I recommend ${contributorName} without reservation. Please do not hesitate to contact me for further information.`,
+      `Sincerely,\n${signOff}`,
+    ].join('\n\n'),
+  };
+};
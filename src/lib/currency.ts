@@ -0,0 +1,35 @@
+// lib/currency.ts
+// Every amount in the app belongs to a project and is shown in that project's currency, formatted for
+// the reader's locale ("ETB 1,250.00", "$1,250.00", "1.250,00 €"). Intl formatters are costly to
+// create, so one is kept per locale/currency pair.
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string, locale?: string): Intl.NumberFormat => {
+  const key = `${locale || ''}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    } catch {
+      // Unknown code: fall back to a plain number followed by the code.
+      formatter = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const formatCurrency = (amount: number | string | null | undefined, currency: string, locale?: string): string => {
+  const code = currency.trim().toUpperCase();
+  const value = Number(amount ?? 0);
+  const formatter = getFormatter(code, locale);
+  const formatted = formatter.format(Number.isFinite(value) ? value : 0);
+  return formatter.resolvedOptions().style === 'currency' ? formatted : `${formatted} ${code}`;
+};
+
+// Symbol or code as the locale writes it, for input labels such as "Amount (ETB)" or "Amount ($)".
+export const getCurrencyLabel = (currency: string, locale?: string): string => {
+  const code = currency.trim().toUpperCase();
+  const symbol = getFormatter(code, locale).formatToParts(0).find(part => part.type === 'currency')?.value;
+  return symbol || code;
+};
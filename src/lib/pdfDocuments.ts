@@ -0,0 +1,267 @@
+// lib/pdfDocuments.ts
+// Receipts, invoices and credentials are rendered to PDF in the browser with jsPDF; nothing is sent to an external
+// service. jsPDF is loaded on first use so it stays out of the main bundle.
+import type { jsPDF } from 'jspdf';
+import { Credential, DocumentParty, MilestoneReceipt, ProjectInvoice } from '../types.ts';
+import { formatCurrency } from './currency.ts';
+import { getCredentialVerificationUrl } from './credentials.ts';
+import { APP_NAME, CREDENTIAL_KIND_LABELS } from '../constants.ts';
+
+const MARGIN = 48;
+const LINE_HEIGHT = 16;
+
+// The built-in PDF fonts only cover Latin-1; Intl output can contain narrow no-break and thin spaces.
+const pdfText = (value: string | number | null | undefined): string =>
+  String(value ?? '').replace(/[\u00a0\u2009\u202f]/g, ' ');
+
+const formatDate = (value?: string | null): string => (value ? new Date(value).toLocaleDateString() : '-');
+
+interface PdfWriter {
+  doc: jsPDF;
+  y: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+const createWriter = async (): Promise<PdfWriter> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  return { doc, y: MARGIN, pageWidth: doc.internal.pageSize.getWidth(), pageHeight: doc.internal.pageSize.getHeight() };
+};
+
+const ensureSpace = (w: PdfWriter, height: number) => {
+  if (w.y + height > w.pageHeight - MARGIN) {
+    w.doc.addPage();
+    w.y = MARGIN;
+  }
+};
+
+const writeHeader = (w: PdfWriter, title: string, number: string, issuedAt: string) => {
+  const { doc } = w;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(pdfText(APP_NAME), MARGIN, w.y);
+  doc.setFontSize(14);
+  doc.text(pdfText(title), w.pageWidth - MARGIN, w.y, { align: 'right' });
+  w.y += LINE_HEIGHT + 4;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(pdfText(`No. ${number}`), w.pageWidth - MARGIN, w.y, { align: 'right' });
+  w.y += LINE_HEIGHT;
+  doc.text(pdfText(`Date: ${formatDate(issuedAt)}`), w.pageWidth - MARGIN, w.y, { align: 'right' });
+  w.y += LINE_HEIGHT;
+  doc.setDrawColor(200);
+  doc.line(MARGIN, w.y, w.pageWidth - MARGIN, w.y);
+  w.y += LINE_HEIGHT * 1.5;
+};
+
+// Two address blocks side by side, e.g. "Paid by" / "Paid to".
+const writeParties = (w: PdfWriter, parties: { label: string; party: DocumentParty | null; fallback: string }[]) => {
+  const { doc } = w;
+  const columnWidth = (w.pageWidth - MARGIN * 2) / parties.length;
+  let maxLines = 0;
+  parties.forEach(({ label, party, fallback }, index) => {
+    const x = MARGIN + columnWidth * index;
+    const lines = party ? [party.name, party.institution, party.email].filter(Boolean) : [fallback];
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(pdfText(label), x, w.y);
+    doc.setFont('helvetica', 'normal');
+    lines.forEach((line, i) => doc.text(pdfText(line), x, w.y + LINE_HEIGHT * (i + 1)));
+    maxLines = Math.max(maxLines, lines.length);
+  });
+  w.y += LINE_HEIGHT * (maxLines + 2);
+};
+
+const writeKeyValues = (w: PdfWriter, rows: [string, string][]) => {
+  const { doc } = w;
+  doc.setFontSize(10);
+  rows.forEach(([label, value]) => {
+    const wrapped: string[] = doc.splitTextToSize(pdfText(value), w.pageWidth - MARGIN * 2 - 140);
+    ensureSpace(w, LINE_HEIGHT * wrapped.length);
+    doc.setFont('helvetica', 'bold');
+    doc.text(pdfText(label), MARGIN, w.y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(wrapped, MARGIN + 140, w.y);
+    w.y += LINE_HEIGHT * wrapped.length + 4;
+  });
+};
+
+interface TableColumn {
+  header: string;
+  width: number; // Fraction of the printable width
+  align?: 'left' | 'right';
+}
+
+const writeTable = (w: PdfWriter, columns: TableColumn[], rows: string[][]) => {
+  const { doc } = w;
+  const printable = w.pageWidth - MARGIN * 2;
+  const xs: number[] = [];
+  columns.forEach((_, i) => xs.push(i === 0 ? MARGIN : xs[i - 1] + columns[i - 1].width * printable));
+  const cellX = (i: number) => (columns[i].align === 'right' ? xs[i] + columns[i].width * printable - 4 : xs[i]);
+
+  const writeHeaderRow = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    columns.forEach((col, i) => doc.text(pdfText(col.header), cellX(i), w.y, { align: col.align || 'left' }));
+    w.y += 6;
+    doc.line(MARGIN, w.y, w.pageWidth - MARGIN, w.y);
+    w.y += LINE_HEIGHT - 4;
+    doc.setFont('helvetica', 'normal');
+  };
+
+  ensureSpace(w, LINE_HEIGHT * 3);
+  writeHeaderRow();
+  rows.forEach(row => {
+    const cells = row.map((cell, i): string[] => doc.splitTextToSize(pdfText(cell), columns[i].width * printable - 8));
+    const height = Math.max(...cells.map(c => c.length)) * (LINE_HEIGHT - 4) + 4;
+    if (w.y + height > w.pageHeight - MARGIN) {
+      doc.addPage();
+      w.y = MARGIN;
+      writeHeaderRow();
+    }
+    cells.forEach((lines, i) => doc.text(lines, cellX(i), w.y, { align: columns[i].align || 'left' }));
+    w.y += height;
+  });
+  doc.line(MARGIN, w.y - 8, w.pageWidth - MARGIN, w.y - 8);
+  w.y += LINE_HEIGHT;
+};
+
+// Free text such as a letter body. Blank lines separate paragraphs.
+const writeParagraphs = (w: PdfWriter, text: string, fontSize = 11) => {
+  const { doc } = w;
+  const lineHeight = fontSize * 1.4;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  text.split(/\n{2,}/).forEach(paragraph => {
+    paragraph.split('\n').forEach(line => {
+      const wrapped: string[] = doc.splitTextToSize(pdfText(line), w.pageWidth - MARGIN * 2);
+      wrapped.forEach(part => {
+        ensureSpace(w, lineHeight);
+        doc.text(part, MARGIN, w.y);
+        w.y += lineHeight;
+      });
+    });
+    w.y += lineHeight / 2;
+  });
+};
+
+const writeFooter = (w: PdfWriter, note: string) => {
+  const { doc } = w;
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(pdfText(note), MARGIN, w.pageHeight - MARGIN / 2);
+    doc.text(`Page ${page} of ${pageCount}`, w.pageWidth - MARGIN, w.pageHeight - MARGIN / 2, { align: 'right' });
+  }
+  doc.setTextColor(0);
+};
+
+const toFileName = (...parts: string[]) =>
+  `${parts.join('_').replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/-+/g, '-').slice(0, 120)}.pdf`;
+
+export const downloadMilestoneReceiptPdf = async (receipt: MilestoneReceipt): Promise<void> => {
+  const w = await createWriter();
+  writeHeader(w, 'Payment Receipt', receipt.receipt_number, receipt.paid_at);
+  writeParties(w, [
+    { label: 'Paid by', party: receipt.payer, fallback: 'Research lead' },
+    { label: 'Paid to', party: receipt.payee, fallback: 'Project contributors' },
+  ]);
+  writeKeyValues(w, [
+    ['Project', receipt.project.title],
+    ['Milestone', receipt.milestone_description],
+    [receipt.is_share ? 'Amount (your share)' : 'Amount', formatCurrency(receipt.amount, receipt.currency)],
+    ['Paid on', formatDate(receipt.paid_at)],
+    ['Transaction reference', receipt.transaction_reference || 'Not recorded'],
+    ...(receipt.payment_provider ? [['Payment method', receipt.payment_provider] as [string, string]] : []),
+  ]);
+  writeFooter(w, `Generated by ${APP_NAME} on ${new Date().toLocaleString()}`);
+  w.doc.save(toFileName('receipt', receipt.receipt_number));
+};
+
+export const downloadProjectInvoicePdf = async (invoice: ProjectInvoice): Promise<void> => {
+  const w = await createWriter();
+  const amount = (value: number | null | undefined) => formatCurrency(value, invoice.currency);
+
+  writeHeader(w, 'Invoice', invoice.invoice_number, invoice.issued_at);
+  writeParties(w, [{ label: 'Research lead', party: invoice.lead, fallback: 'Research lead' }]);
+  writeKeyValues(w, [
+    ['Project', invoice.project.title],
+    ['Period', `${formatDate(invoice.project.start_date)} - ${formatDate(invoice.project.end_date)}`],
+    ['Stipend budget', invoice.project.stipend_amount != null ? amount(invoice.project.stipend_amount) : 'Not set'],
+  ]);
+  w.y += LINE_HEIGHT / 2;
+
+  writeTable(
+    w,
+    [
+      { header: 'Milestone', width: 0.3 },
+      { header: 'Status', width: 0.12 },
+      { header: 'Payee', width: 0.16 },
+      { header: 'Paid on', width: 0.12 },
+      { header: 'Reference', width: 0.15 },
+      { header: 'Amount', width: 0.15, align: 'right' },
+    ],
+    invoice.lines.map(line => [
+      line.description,
+      line.status.replace(/_/g, ' '),
+      line.payee_name || '-',
+      formatDate(line.paid_at),
+      line.transaction_reference || '-',
+      amount(line.amount),
+    ])
+  );
+
+  writeKeyValues(w, [
+    ['Total (all milestones)', amount(invoice.total)],
+    ['Paid', amount(invoice.paid_total)],
+    ['Outstanding', amount(invoice.total - invoice.paid_total)],
+  ]);
+  writeFooter(w, `Generated by ${APP_NAME} on ${new Date().toLocaleString()}`);
+  w.doc.save(toFileName('invoice', invoice.project.title, invoice.invoice_number));
+};
+
+// Only signed credentials have a code; the caller checks the status first.
+export const downloadCredentialPdf = async (credential: Credential): Promise<void> => {
+  const w = await createWriter();
+  const { doc } = w;
+  const code = credential.verification_code || '';
+
+  writeHeader(w, CREDENTIAL_KIND_LABELS[credential.kind], code, credential.signed_at || new Date().toISOString());
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  const title: string[] = doc.splitTextToSize(pdfText(credential.title), w.pageWidth - MARGIN * 2);
+  doc.text(title, MARGIN, w.y);
+  w.y += LINE_HEIGHT * (title.length + 1);
+
+  writeParagraphs(w, credential.body);
+
+  ensureSpace(w, LINE_HEIGHT * 4);
+  w.y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(pdfText(`Signed electronically by ${credential.signed_name || credential.issued_by_user?.name || 'the research lead'}`), MARGIN, w.y);
+  w.y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'normal');
+  doc.text(pdfText(`on ${formatDate(credential.signed_at)} for the project "${credential.project?.title || ''}"`), MARGIN, w.y);
+  w.y += LINE_HEIGHT * 2;
+
+  const verifyLines: string[] = [
+    `Verification code: ${code}`,
+    ...doc.splitTextToSize(pdfText(`Check that this document is authentic at ${getCredentialVerificationUrl(code)}`), w.pageWidth - MARGIN * 2 - 16),
+  ];
+  ensureSpace(w, LINE_HEIGHT * (verifyLines.length + 1));
+  doc.setDrawColor(200);
+  doc.rect(MARGIN, w.y - LINE_HEIGHT, w.pageWidth - MARGIN * 2, LINE_HEIGHT * (verifyLines.length + 0.5));
+  verifyLines.forEach(line => {
+    doc.text(pdfText(line), MARGIN + 8, w.y);
+    w.y += LINE_HEIGHT;
+  });
+  w.y += LINE_HEIGHT;
+
+  writeFooter(w, `Issued through ${APP_NAME}`);
+  doc.save(toFileName(credential.kind, credential.contributor_user?.name || 'contributor', code));
+};
@@ -0,0 +1,45 @@
+// Browser side of Web Push: permission, subscribing through the PWA service worker,
+// and converting the result into what the push_subscriptions table stores.
+
+const vapidPublicKey: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!vapidPublicKey;
+
+// VAPID keys are distributed as URL-safe base64; PushManager wants the raw bytes.
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = window.atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+};
+
+export const getCurrentPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+};
+
+export const subscribeBrowserToPush = async (): Promise<PushSubscription> => {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser.');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notification permission was not granted.');
+
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey!),
+  });
+};
+
+export const getPushSubscriptionKeys = (subscription: PushSubscription): { endpoint: string; p256dh: string; auth: string } => {
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    throw new Error('Push subscription is missing its endpoint or keys.');
+  }
+  return { endpoint: json.endpoint, p256dh: json.keys.p256dh, auth: json.keys.auth };
+};
@@ -9,7 +9,11 @@ import Button from '../components/ui/Button.tsx';
 import Modal from '../components/ui/Modal.tsx';
 import Select from '../components/ui/Select.tsx';
 import Input from '../components/ui/Input.tsx';
-import { Users, Briefcase, Edit, ShieldAlert, CheckCircle, ExternalLink, Filter, Search as SearchIcon } from 'lucide-react';
+import ProjectLedgerSummary from '../components/projects/ProjectLedgerSummary.tsx';
+import ExchangeRatesManager from '../components/admin/ExchangeRatesManager.tsx';
+import StipendReport from '../components/admin/StipendReport.tsx';
+import MessageRevisionsLog from '../components/admin/MessageRevisionsLog.tsx';
+import { Users, Briefcase, Edit, ShieldAlert, CheckCircle, ExternalLink, Filter, Wallet, Search as SearchIcon } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { PAGINATION_PAGE_SIZE } from '../constants.ts';
 
@@ -18,7 +22,7 @@ const AdminDashboardPage: React.FC = () => {
   const { user: adminUser, loading: authLoading } = useAuth();
   const { addNotification } = useNotifications();
 
-  const [activeTab, setActiveTab] = useState<'users' | 'projects'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'projects' | 'finances' | 'chat'>('users');
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -31,6 +35,8 @@ const AdminDashboardPage: React.FC = () => {
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isStatusModalOpen, setIsStatusModalOpen] = useState(false);
   const [newProjectStatus, setNewProjectStatus] = useState<ProjectStatus | ''>('');
+  const [financesProject, setFinancesProject] = useState<Project | null>(null);
+  const [reportRefreshKey, setReportRefreshKey] = useState(0);
   
   const [userSearchTerm, setUserSearchTerm] = useState('');
   const [projectSearchTerm, setProjectSearchTerm] = useState('');
@@ -185,6 +191,18 @@ const AdminDashboardPage: React.FC = () => {
           >
             Project Oversight ({projects.length})
           </button>
+          <button
+            onClick={() => setActiveTab('finances')}
+            className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'finances' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+          >
+            Finances
+          </button>
+          <button
+            onClick={() => setActiveTab('chat')}
+            className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'chat' ? 'border-primary text-primary' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
+          >
+            Chat History
+          </button>
         </nav>
       </div>
 
@@ -290,6 +308,7 @@ const AdminDashboardPage: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(p.created_at || '').toLocaleDateString()}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <Button variant="ghost" size="sm" onClick={() => handleOpenStatusModal(p)} leftIcon={<Edit size={14}/>}>Change Status</Button>
+                      <Button variant="ghost" size="sm" onClick={() => setFinancesProject(p)} leftIcon={<Wallet size={14}/>} className="ml-2">Finances</Button>
                       <Link to={`/projects/${p.id}`} target="_blank">
                         <Button variant="ghost" size="sm" leftIcon={<ExternalLink size={14}/>} className="ml-2">View</Button>
                       </Link>
@@ -308,6 +327,28 @@ const AdminDashboardPage: React.FC = () => {
         </section>
       )}
 
+      {activeTab === 'finances' && (
+        <section className="space-y-8">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Stipend Report</h2>
+            <StipendReport refreshKey={reportRefreshKey} />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-1">Exchange Rates</h2>
+            <p className="text-sm text-gray-500 mb-4">Used to convert report totals only. Projects are always paid in their own currency.</p>
+            <ExchangeRatesManager onChange={() => setReportRefreshKey(k => k + 1)} />
+          </div>
+        </section>
+      )}
+
+      {activeTab === 'chat' && (
+        <section>
+          <h2 className="text-xl font-semibold text-gray-700 mb-1">Edited and Deleted Messages</h2>
+          <p className="text-sm text-gray-500 mb-4">The version of each chat message before it was changed. Only admins can see this history.</p>
+          <MessageRevisionsLog />
+        </section>
+      )}
+
       {/* Modals */}
       <Modal isOpen={isRoleModalOpen} onClose={() => setIsRoleModalOpen(false)} title={`Change Role for ${selectedUser?.name}`}>
         <Select label="New Role" value={newRole} onChange={(e) => setNewRole(e.target.value as UserRole)}>
@@ -334,6 +375,10 @@ const AdminDashboardPage: React.FC = () => {
           <Button onClick={handleProjectStatusChange} isLoading={isLoading} disabled={!newProjectStatus || newProjectStatus === selectedProject?.status}>Confirm Change</Button>
         </div>
       </Modal>
+
+      <Modal isOpen={!!financesProject} onClose={() => setFinancesProject(null)} title={`Finances for "${financesProject?.title}"`} size="xl">
+        {financesProject && <ProjectLedgerSummary projectId={financesProject.id} canRecordDisbursements />}
+      </Modal>
     </div>
   );
 };
@@ -4,6 +4,8 @@ import { useAuth } from '../hooks/useAuth.ts';
 import { Project, Application, UserRole } from '../types.ts'; // UserRole already imported
 import { getProjects, getApplicationsForUser } from '../services/apiService.ts';
 import ProjectCard from '../components/projects/ProjectCard.tsx';
+import UnreadBadge from '../components/chat/UnreadBadge.tsx';
+import { useUnreadMessageCounts } from '../hooks/useUnreadMessageCounts.ts';
 import Spinner from '../components/ui/Spinner.tsx';
 import Button from '../components/ui/Button.tsx';
 import { Link } from 'react-router-dom';
@@ -17,6 +19,7 @@ const DashboardPage: React.FC = () => {
   const [myPostedProjects, setMyPostedProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const unreadMessageCounts = useUnreadMessageCounts();
 
   useEffect(() => {
     const fetchData = async () => {
@@ -113,7 +116,7 @@ const DashboardPage: React.FC = () => {
           <h2 className="text-2xl font-semibold text-gray-700 mb-4">Your Posted Projects</h2>
           {myPostedProjects.length > 0 ? (
             <div className="grid md:grid-cols-2 gap-6">
-              {myPostedProjects.map(p => <ProjectCard key={p.id} project={p} showApplyButton={false}/>)}
+              {myPostedProjects.map(p => <ProjectCard key={p.id} project={p} showApplyButton={false} unreadMessageCount={unreadMessageCounts[p.id]}/>)}
             </div>
           ) : (
             <div className="p-6 bg-white rounded-lg shadow border text-center">
@@ -132,6 +135,7 @@ const DashboardPage: React.FC = () => {
               {myApplications.slice(0, 5).map(app => ( // Show first 5
                 <div key={app.id} className="p-4 border-b last:border-b-0 hover:bg-gray-50 transition-colors">
                   <Link to={`/projects/${app.project_id}`} className="font-semibold text-primary hover:underline">{app.project?.title || 'Project Details'}</Link>
+                  <UnreadBadge count={unreadMessageCounts[app.project_id]} className="ml-2" />
                   <span className={`ml-3 px-2.5 py-1 text-xs font-medium rounded-full ${
                     app.status === 'accepted' ? 'bg-green-100 text-green-700' :
                     app.status === 'pending' ? 'bg-yellow-100 text-yellow-700' :
@@ -164,7 +168,7 @@ const DashboardPage: React.FC = () => {
           <h2 className="text-2xl font-semibold text-gray-700 mb-4">Recently Opened Projects</h2>
            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
             {projects.map(project => (
-              <ProjectCard key={project.id} project={project} />
+              <ProjectCard key={project.id} project={project} unreadMessageCount={unreadMessageCounts[project.id]} />
             ))}
           </div>
         </section>
@@ -5,6 +5,7 @@ import { useAuth } from '../hooks/useAuth.ts';
 import { useNotifications } from '../hooks/useNotifications.ts';
 import { getApplicationsForUser } from '../services/apiService.ts';
 import { Application, ApplicationStatus, NotificationType } from '../types.ts';
+import { formatCurrency } from '../lib/currency.ts';
 import Spinner from '../components/ui/Spinner.tsx';
 import Button from '../components/ui/Button.tsx';
 import { Briefcase, CalendarDays, ExternalLink, FileText, CheckCircle, XCircle, Clock, ListFilter, DollarSign } from 'lucide-react';
@@ -121,7 +122,7 @@ const MyApplicationsPage: React.FC = () => {
                 <div className="text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1 mb-4">
                   <span className="flex items-center"><CalendarDays size={14} className="mr-1.5 text-gray-400"/>Applied on: {new Date(app.created_at!).toLocaleDateString()}</span>
                   {app.availability && <span className="flex items-center"><Clock size={14} className="mr-1.5 text-gray-400"/>Availability: {app.availability}</span>}
-                  {app.proposed_rate !== undefined && <span className="flex items-center"><DollarSign size={14} className="mr-1.5 text-gray-400"/>Rate: ${app.proposed_rate}</span>}
+                  {app.proposed_rate !== undefined && <span className="flex items-center"><DollarSign size={14} className="mr-1.5 text-gray-400"/>Rate: {app.project?.currency ? formatCurrency(app.proposed_rate, app.project.currency) : app.proposed_rate}</span>}
                 </div>
                 
                 {(app.cv_url || app.linkedin_url) && (
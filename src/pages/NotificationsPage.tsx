@@ -0,0 +1,280 @@
+// pages/NotificationsPage.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNotifications } from '../hooks/useNotifications.ts';
+import { useNotificationCenter } from '../contexts/NotificationCenterContext.tsx';
+import {
+  getGroupedAppNotificationsForUser,
+  getAppNotificationsInGroup,
+  markNotificationsAsRead,
+  archiveNotifications,
+  deleteNotifications,
+} from '../services/apiService.ts';
+import { AppNotification, AppNotificationGroup, NotificationFilters, NotificationReadFilter, NotificationType, NotificationTypeEnum } from '../types.ts';
+import { NOTIFICATION_TYPE_LABELS, PAGINATION_PAGE_SIZE } from '../constants.ts';
+import NotificationGroupItem from '../components/notifications/NotificationGroupItem.tsx';
+import Spinner from '../components/ui/Spinner.tsx';
+import Button from '../components/ui/Button.tsx';
+import Select from '../components/ui/Select.tsx';
+import Modal from '../components/ui/Modal.tsx';
+import { Bell, CheckCheck, Archive, Trash2 } from 'lucide-react';
+
+const NotificationsPage: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const { refreshUnreadCount, fetchNotifications } = useNotificationCenter();
+
+  const [filters, setFilters] = useState<NotificationFilters>({ readState: 'all', includeArchived: false });
+  const [groups, setGroups] = useState<AppNotificationGroup[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [expandedItems, setExpandedItems] = useState<AppNotification[]>([]);
+  const [isLoadingExpanded, setIsLoadingExpanded] = useState(false);
+  const [isActionPending, setIsActionPending] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+
+  const loadGroups = useCallback(async (pageToFetch: number) => {
+    if (pageToFetch === 1) setIsLoading(true); else setIsLoadingMore(true);
+    try {
+      const { data, error } = await getGroupedAppNotificationsForUser(filters, pageToFetch, PAGINATION_PAGE_SIZE);
+      if (error) throw error;
+      const fetched = data || [];
+      setGroups(prev => pageToFetch === 1 ? fetched : [...prev, ...fetched.filter(g => !prev.some(p => p.group_key === g.group_key))]);
+      setHasMore(fetched.length === PAGINATION_PAGE_SIZE);
+      setPage(pageToFetch);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load notifications.', NotificationType.ERROR);
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  }, [filters, addNotification]);
+
+  useEffect(() => {
+    setSelectedKeys(new Set());
+    setExpandedKey(null);
+    loadGroups(1);
+  }, [loadGroups]);
+
+  const loadExpandedItems = async (groupKey: string) => {
+    setIsLoadingExpanded(true);
+    try {
+      const { data, error } = await getAppNotificationsInGroup(groupKey, filters);
+      if (error) throw error;
+      setExpandedItems(data || []);
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to load notifications in this group.', NotificationType.ERROR);
+    } finally {
+      setIsLoadingExpanded(false);
+    }
+  };
+
+  const handleToggleExpanded = (groupKey: string) => {
+    if (expandedKey === groupKey) {
+      setExpandedKey(null);
+      return;
+    }
+    setExpandedKey(groupKey);
+    setExpandedItems([]);
+    loadExpandedItems(groupKey);
+  };
+
+  const handleToggleSelected = (groupKey: string) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(groupKey)) next.delete(groupKey); else next.add(groupKey);
+      return next;
+    });
+  };
+
+  const allSelected = groups.length > 0 && groups.every(g => selectedKeys.has(g.group_key));
+  const handleToggleSelectAll = () => {
+    setSelectedKeys(allSelected ? new Set() : new Set(groups.map(g => g.group_key)));
+  };
+
+  const selectedIds = groups
+    .filter(g => selectedKeys.has(g.group_key))
+    .flatMap(g => g.notification_ids);
+
+  // Re-reads the list and the bell badge/dropdown, which share the same rows.
+  const refreshAfterChange = async () => {
+    setSelectedKeys(new Set());
+    setExpandedKey(null);
+    await Promise.all([loadGroups(1), refreshUnreadCount(), fetchNotifications(1)]);
+  };
+
+  const runBulkAction = async (
+    action: (ids: string[]) => Promise<{ error: any }>,
+    successMessage: string,
+    failureMessage: string
+  ) => {
+    if (selectedIds.length === 0) return;
+    setIsActionPending(true);
+    try {
+      const { error } = await action(selectedIds);
+      if (error) throw error;
+      addNotification(successMessage, NotificationType.SUCCESS);
+      await refreshAfterChange();
+    } catch (err: any) {
+      addNotification(err.message || failureMessage, NotificationType.ERROR);
+    } finally {
+      setIsActionPending(false);
+    }
+  };
+
+  const handleMarkItemAsRead = async (notificationId: string) => {
+    try {
+      const { error } = await markNotificationsAsRead([notificationId]);
+      if (error) throw error;
+      setExpandedItems(prev => prev.map(n => n.id === notificationId ? { ...n, is_read: true } : n));
+      setGroups(prev => prev.map(g => g.notification_ids.includes(notificationId)
+        ? { ...g, unread_count: Math.max(0, g.unread_count - 1) }
+        : g));
+      refreshUnreadCount();
+    } catch (err: any) {
+      addNotification(err.message || 'Failed to mark notification as read.', NotificationType.ERROR);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    setIsDeleteModalOpen(false);
+    await runBulkAction(deleteNotifications, `Deleted ${selectedIds.length} notification(s).`, 'Failed to delete notifications.');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center">
+        <Bell size={32} className="mr-3 text-primary" />
+        <h1 className="text-3xl font-bold text-gray-800">Notifications</h1>
+      </div>
+
+      <div className="bg-white p-4 shadow rounded-lg flex flex-col sm:flex-row sm:items-end gap-4">
+        <Select
+          label="Type"
+          value={filters.type || ''}
+          onChange={(e) => setFilters(prev => ({ ...prev, type: (e.target.value || undefined) as NotificationTypeEnum | undefined }))}
+          containerClassName="mb-0 flex-1"
+        >
+          <option value="">All types</option>
+          {Object.values(NotificationTypeEnum).map(type => (
+            <option key={type} value={type}>{NOTIFICATION_TYPE_LABELS[type]}</option>
+          ))}
+        </Select>
+        <Select
+          label="Status"
+          value={filters.readState || 'all'}
+          onChange={(e) => setFilters(prev => ({ ...prev, readState: e.target.value as NotificationReadFilter }))}
+          containerClassName="mb-0 flex-1"
+        >
+          <option value="all">All</option>
+          <option value="unread">Unread</option>
+          <option value="read">Read</option>
+        </Select>
+        <label className="flex items-center text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={!!filters.includeArchived}
+            onChange={(e) => setFilters(prev => ({ ...prev, includeArchived: e.target.checked }))}
+            className="h-4 w-4 mr-2 text-primary border-gray-300 rounded focus:ring-primary"
+          />
+          Include archived
+        </label>
+      </div>
+
+      <div className="bg-white p-4 shadow rounded-lg">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={handleToggleSelectAll}
+              disabled={groups.length === 0}
+              className="h-4 w-4 mr-2 text-primary border-gray-300 rounded focus:ring-primary"
+            />
+            {selectedKeys.size > 0 ? `${selectedKeys.size} selected` : 'Select all'}
+          </label>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<CheckCheck size={14} />}
+              disabled={selectedIds.length === 0 || isActionPending}
+              onClick={() => runBulkAction(markNotificationsAsRead, 'Marked as read.', 'Failed to mark notifications as read.')}
+            >
+              Mark read
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Archive size={14} />}
+              disabled={selectedIds.length === 0 || isActionPending}
+              onClick={() => runBulkAction(archiveNotifications, 'Archived.', 'Failed to archive notifications.')}
+            >
+              Archive
+            </Button>
+            <Button
+              size="sm"
+              variant="danger"
+              leftIcon={<Trash2 size={14} />}
+              disabled={selectedIds.length === 0 || isActionPending}
+              onClick={() => setIsDeleteModalOpen(true)}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12"><Spinner size="lg" /></div>
+        ) : groups.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No notifications match these filters.</p>
+        ) : (
+          <ul className="space-y-3">
+            {groups.map(group => (
+              <NotificationGroupItem
+                key={group.group_key}
+                group={group}
+                isSelected={selectedKeys.has(group.group_key)}
+                onToggleSelected={handleToggleSelected}
+                isExpanded={expandedKey === group.group_key}
+                onToggleExpanded={handleToggleExpanded}
+                expandedItems={expandedKey === group.group_key ? expandedItems : undefined}
+                isLoadingItems={expandedKey === group.group_key && isLoadingExpanded}
+                onMarkItemAsRead={handleMarkItemAsRead}
+              />
+            ))}
+          </ul>
+        )}
+
+        {hasMore && !isLoading && (
+          <div className="text-center mt-4">
+            <Button variant="ghost" onClick={() => loadGroups(page + 1)} isLoading={isLoadingMore}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        title="Delete notifications"
+        size="sm"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setIsDeleteModalOpen(false)}>Cancel</Button>
+            <Button variant="danger" onClick={handleConfirmDelete} isLoading={isActionPending}>Delete</Button>
+          </>
+        }
+      >
+        <p className="text-sm text-gray-600">
+          Permanently delete {selectedIds.length} notification(s)? Archive them instead if you may want them later.
+        </p>
+      </Modal>
+    </div>
+  );
+};
+
+export default NotificationsPage;
@@ -11,8 +11,10 @@ import Input from '../components/ui/Input.tsx';
 import Textarea from '../components/ui/Textarea.tsx';
 import Button from '../components/ui/Button.tsx';
 import Spinner from '../components/ui/Spinner.tsx';
+import NotificationPreferencesForm from '../components/notifications/NotificationPreferencesForm.tsx';
+import PushNotificationToggle from '../components/notifications/PushNotificationToggle.tsx';
 import { DEFAULT_PROFILE_PHOTO_URL } from '../constants.ts';
-import { Save, Image as ImageIcon } from 'lucide-react'; // UserCog was not used, removed
+import { Save, Image as ImageIcon, Bell } from 'lucide-react'; // UserCog was not used, removed
 
 // Schema for profile updates
 const profileUpdateSchema = z.object({
@@ -218,6 +220,16 @@ const ProfilePage: React.FC = () => {
           </div>
         </form>
       </div>
+
+      <div className="bg-white p-6 md:p-8 shadow-xl rounded-lg mt-8">
+        <h2 className="text-2xl font-semibold text-primary mb-4 flex items-center">
+          <Bell size={22} className="mr-2" /> Notification Preferences
+        </h2>
+        <div className="mb-6">
+          <PushNotificationToggle />
+        </div>
+        <NotificationPreferencesForm />
+      </div>
     </div>
   );
 };
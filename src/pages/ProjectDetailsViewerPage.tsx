@@ -1,17 +1,24 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { useParams, Link, useNavigate, useLocation } from 'react-router-dom';
-import type { RealtimeChannel } from '@supabase/supabase-js';
-import { Project, Application, UserRole, Milestone, Message, ApplicationStatus, MilestoneStatus, NotificationType, ProjectStatus, CompensationModel } from '../types.ts';
-import { getProjectById, sendMessage, uploadFile, updateApplicationStatus, updateMilestoneStatus } from '../services/apiService.ts';
+import { Project, Application, UserRole, Milestone, MilestoneAllocationInput, ApplicationStatus, MilestoneStatus, MilestoneSubmission, MilestoneSubmissionStatus, NotificationType, ProjectStatus, CompensationModel } from '../types.ts';
+import { getProjectById, uploadFile, updateApplicationStatus, createCheckoutSession, submitMilestone, reviewMilestoneSubmission, setMilestoneAllocations, getMilestoneReceipt, getProjectInvoice } from '../services/apiService.ts';
 import { useAuth } from '../hooks/useAuth.ts';
 import { useNotifications } from '../hooks/useNotifications.ts';
 import Spinner from '../components/ui/Spinner.tsx';
 import Button from '../components/ui/Button.tsx';
 import ApplicationForm from '../components/applications/ApplicationForm.tsx';
-import { Briefcase, CalendarDays, DollarSign, Edit3, Eye, Users, CheckSquare, MessageSquare, Paperclip, Send, UserCheck, UserX, Settings, User } from 'lucide-react';
+import { Briefcase, CalendarDays, DollarSign, Edit3, Eye, Users, CheckSquare, MessageSquare, UserCheck, UserX, Settings, User, FileText } from 'lucide-react';
 import MilestoneItem from '../components/projects/MilestoneItem.tsx';
-import { supabase } from '../lib/supabaseClient.ts';
-import Textarea from '../components/ui/Textarea.tsx';
+import { MilestoneReviewDecision } from '../components/projects/MilestoneReviewForm.tsx';
+import ProjectLedgerSummary from '../components/projects/ProjectLedgerSummary.tsx';
+import TimesheetPanel from '../components/projects/TimesheetPanel.tsx';
+import ProjectRatingsPanel from '../components/ratings/ProjectRatingsPanel.tsx';
+import ReputationBadge from '../components/ratings/ReputationBadge.tsx';
+import CredentialsPanel from '../components/credentials/CredentialsPanel.tsx';
+import ContributionRolesPanel from '../components/credits/ContributionRolesPanel.tsx';
+import ProjectChat from '../components/chat/ProjectChat.tsx';
+import { formatCurrency } from '../lib/currency.ts';
+import { downloadMilestoneReceiptPdf, downloadProjectInvoicePdf } from '../lib/pdfDocuments.ts';
 
 const ProjectDetailsViewerPage: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
@@ -22,14 +29,12 @@ const ProjectDetailsViewerPage: React.FC = () => {
 
   const [project, setProject] = useState<Project | null>(null);
   const [applications, setApplications] = useState<Application[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [newMessage, setNewMessage] = useState('');
-  const [attachment, setAttachment] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isApplying, setIsApplying] = useState(location.pathname.endsWith('/apply'));
-  const [isSendingMessage, setIsSendingMessage] = useState(false);
-  const [chatChannel, setChatChannel] = useState<RealtimeChannel | null>(null);
+  const [fundingMilestoneId, setFundingMilestoneId] = useState<string | null>(null);
+  const [downloadingReceiptId, setDownloadingReceiptId] = useState<string | null>(null);
+  const [isDownloadingInvoice, setIsDownloadingInvoice] = useState(false);
 
   const { 
     isOwner, 
@@ -79,106 +84,137 @@ const ProjectDetailsViewerPage: React.FC = () => {
     fetchProjectDetails();
   }, [fetchProjectDetails]);
 
+  // The checkout provider sends the lead back here with ?payment=success|cancelled.
   useEffect(() => {
-    const fetchMessages = async () => {
-      if (!canChat || !projectId) return;
-      try {
-        const { data: msgs, error: msgError } = await supabase.from('messages').select('*, sender_user:users(id,name,profile_photo_url)').eq('project_id', projectId).order('created_at');
-        if (msgError) throw msgError;
-        setMessages(msgs || []);
-      } catch (err: any) {
-        console.error("Error fetching messages:", err);
-        addNotification('Failed to load chat messages.', NotificationType.WARNING);
+    const paymentResult = new URLSearchParams(location.search).get('payment');
+    if (!paymentResult) return;
+    if (paymentResult === 'success') {
+      addNotification('Payment received. The milestone will show as paid as soon as the payment provider confirms it.', NotificationType.SUCCESS);
+    } else {
+      addNotification('Checkout was cancelled. The milestone has not been funded.', NotificationType.INFO);
+    }
+    navigate(location.pathname, { replace: true });
+  }, [location.search, location.pathname, navigate, addNotification]);
+
+  const handleApplicationStatusUpdate = async (applicationId: string, newStatus: ApplicationStatus) => {
+    if (!isOwner || !project) return;
+    try {
+      const { error } = await updateApplicationStatus(applicationId, newStatus);
+      if (error) throw error;
+      addNotification(`Application status updated to ${newStatus}.`, NotificationType.SUCCESS);
+      setApplications(prev => prev.map(a => a.id === applicationId ? { ...a, status: newStatus } : a));
+      if (newStatus === ApplicationStatus.ACCEPTED) {
+        setProject(prev => prev ? { ...prev, status: ProjectStatus.IN_PROGRESS } : null);
       }
-    };
-    fetchMessages();
-  }, [canChat, projectId, addNotification]);
+    } catch (err: any) {
+      addNotification(`Failed to update application: ${err.message}`, NotificationType.ERROR);
+    }
+  };
 
-  // --- DEFINITIVE FIX: Stabilized realtime subscription ---
-  useEffect(() => {
-    if (canChat && projectId && !chatChannel) {
-      const newChannel = supabase.channel(`project-chat-${projectId}`);
-      newChannel
-        .on<Message>(
-          'postgres_changes',
-          { event: 'INSERT', schema: 'public', table: 'messages', filter: `project_id=eq.${projectId}` },
-          async (payload) => {
-            const { data: senderData } = await supabase.from('users').select('id, name, profile_photo_url').eq('id', payload.new.sender_user_id).single();
-            const fullMessage = { ...payload.new, sender_user: senderData || undefined };
-            setMessages(prev => {
-                if (prev.some(m => m.id === fullMessage.id)) return prev;
-                return [...prev, fullMessage as Message];
-            });
-          }
-        )
-        .subscribe((status, err) => {
-          if (status === 'SUBSCRIBED') {
-            console.log(`Subscribed to project chat ${projectId}`);
-          } else if (err) {
-            console.error(`Error subscribing to chat:`, err);
-            addNotification('Realtime chat connection failed.', NotificationType.WARNING, 10000);
-          }
-        });
-      setChatChannel(newChannel);
+  const handleFundMilestone = async (milestone: Milestone) => {
+    if (!isOwner) return;
+    setFundingMilestoneId(milestone.id);
+    try {
+      const { checkout_url, error } = await createCheckoutSession(milestone.id);
+      if (error || !checkout_url) throw new Error(error || 'Failed to start checkout.');
+      window.location.assign(checkout_url);
+    } catch (err: any) {
+      addNotification(`Failed to fund milestone: ${err.message}`, NotificationType.ERROR);
+      setFundingMilestoneId(null);
     }
-    return () => {
-      if (chatChannel) {
-        supabase.removeChannel(chatChannel);
-      }
-    };
-    // CRITICAL FIX: The `chatChannel` state variable is REMOVED from the dependency array to break the infinite loop.
-  }, [projectId, canChat, addNotification]);
+  };
+
+  // Keeps a milestone and its submission list in sync after a submit or review, without refetching the project.
+  const applyMilestoneSubmission = (milestoneId: string, submission: MilestoneSubmission, status: MilestoneStatus) => {
+    setProject(prev => prev ? {
+      ...prev,
+      milestones: prev.milestones?.map(m => m.id === milestoneId
+        ? { ...m, status, submissions: [submission, ...(m.submissions || []).filter(s => s.id !== submission.id)] }
+        : m)
+    } : null);
+  };
 
-  const handleSendMessage = async () => {
-    if (!projectId || (!newMessage.trim() && !attachment) || !user) return;
-    setIsSendingMessage(true);
+  const handleSubmitMilestone = async (milestoneId: string, notes: string, files: File[]) => {
+    if (!isAcceptedContributor || !user) return;
     try {
-      let attachmentUrl: string | undefined;
-      if (attachment) {
-        const { publicUrl, error: uploadError } = await uploadFile(attachment, 'project-chat-attachments');
-        if (uploadError || !publicUrl) throw new Error(uploadError?.message || 'Failed to upload attachment');
-        attachmentUrl = publicUrl;
+      const attachmentUrls: string[] = [];
+      for (const file of files) {
+        const { publicUrl, error: uploadError } = await uploadFile(file, 'project-attachments');
+        if (uploadError || !publicUrl) throw new Error(uploadError?.message || `Failed to upload ${file.name}.`);
+        attachmentUrls.push(publicUrl);
       }
-      const { error, data } = await sendMessage(projectId, newMessage.trim(), attachmentUrl);
+      const { data, error } = await submitMilestone(milestoneId, notes, attachmentUrls);
+      if (error) throw error;
+      if (data) applyMilestoneSubmission(milestoneId, { ...data, submitted_by_user: { id: user.id, name: user.name } }, MilestoneStatus.SUBMITTED);
+      addNotification("Milestone submitted for review.", NotificationType.SUCCESS);
+    } catch (err: any) {
+      addNotification(`Failed to submit milestone: ${err.message}`, NotificationType.ERROR);
+      throw err;
+    }
+  };
+
+  const handleReviewSubmission = async (submissionId: string, decision: MilestoneReviewDecision, comments: string) => {
+    if (!isOwner) return;
+    try {
+      const { data, error } = await reviewMilestoneSubmission(submissionId, decision, comments);
       if (error) throw error;
       if (data) {
-        setMessages(prev => [...prev, data]);
+        const previous = project?.milestones?.find(m => m.id === data.milestone_id)?.submissions?.find(s => s.id === data.id);
+        const approved = decision === MilestoneSubmissionStatus.APPROVED;
+        applyMilestoneSubmission(data.milestone_id, { ...data, submitted_by_user: previous?.submitted_by_user }, approved ? MilestoneStatus.APPROVED : MilestoneStatus.CHANGES_REQUESTED);
+        addNotification(approved ? "Submission approved. The milestone can now be funded." : "Changes requested from the contributor.", NotificationType.SUCCESS);
       }
-      setNewMessage('');
-      setAttachment(null);
     } catch (err: any) {
-      addNotification(err.message || 'Failed to send message.', NotificationType.ERROR);
-    } finally {
-      setIsSendingMessage(false);
+      addNotification(`Failed to review submission: ${err.message}`, NotificationType.ERROR);
+      throw err;
     }
   };
-  
-  const handleApplicationStatusUpdate = async (applicationId: string, newStatus: ApplicationStatus) => {
-    if (!isOwner || !project) return;
+
+  const acceptedContributors = useMemo(
+    () => applications
+      .filter(app => app.status === ApplicationStatus.ACCEPTED)
+      .map(app => ({ id: app.contributor_user_id, name: app.contributor_user?.name || 'Contributor' })),
+    [applications]
+  );
+
+  const handleSaveAllocations = async (milestoneId: string, allocations: MilestoneAllocationInput[]) => {
+    if (!isOwner) return;
     try {
-      const { error } = await updateApplicationStatus(applicationId, newStatus);
+      const { data, error } = await setMilestoneAllocations(milestoneId, allocations);
       if (error) throw error;
-      addNotification(`Application status updated to ${newStatus}.`, NotificationType.SUCCESS);
-      setApplications(prev => prev.map(a => a.id === applicationId ? { ...a, status: newStatus } : a));
-      if (newStatus === ApplicationStatus.ACCEPTED) {
-        setProject(prev => prev ? { ...prev, status: ProjectStatus.IN_PROGRESS } : null);
-      }
+      const saved = (data || []).map(a => ({ ...a, contributor_user: acceptedContributors.find(c => c.id === a.contributor_user_id) }));
+      setProject(prev => prev ? { ...prev, milestones: prev.milestones?.map(m => m.id === milestoneId ? { ...m, allocations: saved } : m) } : prev);
+      addNotification(saved.length ? "Milestone split saved." : "Milestone split removed.", NotificationType.SUCCESS);
     } catch (err: any) {
-      addNotification(`Failed to update application: ${err.message}`, NotificationType.ERROR);
+      addNotification(`Failed to save the milestone split: ${err.message}`, NotificationType.ERROR);
+      throw err;
     }
   };
 
-  const handleFundMilestone = async (milestone: Milestone) => addNotification(`Initiating funding for milestone: "${milestone.description}" for $${milestone.amount}`, NotificationType.INFO);
+  const handleDownloadReceipt = async (milestone: Milestone) => {
+    setDownloadingReceiptId(milestone.id);
+    try {
+      const { data, error } = await getMilestoneReceipt(milestone.id);
+      if (error) throw error;
+      if (data) await downloadMilestoneReceiptPdf(data);
+    } catch (err: any) {
+      addNotification(`Failed to download receipt: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setDownloadingReceiptId(null);
+    }
+  };
 
-  const handleMarkMilestoneComplete = async (milestoneId: string) => {
-    if (!isOwner || !projectId) return;
+  const handleDownloadInvoice = async () => {
+    if (!project) return;
+    setIsDownloadingInvoice(true);
     try {
-      const { error, data } = await updateMilestoneStatus(milestoneId, projectId, MilestoneStatus.COMPLETED);
+      const { data, error } = await getProjectInvoice(project.id);
       if (error) throw error;
-      addNotification("Milestone marked as complete.", NotificationType.SUCCESS);
-      setProject(prev => prev ? { ...prev, milestones: prev.milestones?.map(m => m.id === milestoneId ? (data || { ...m, status: MilestoneStatus.COMPLETED }) : m) } : null);
+      if (data) await downloadProjectInvoicePdf(data);
     } catch (err: any) {
-      addNotification(`Failed to update milestone: ${err.message}`, NotificationType.ERROR);
+      addNotification(`Failed to download invoice: ${err.message}`, NotificationType.ERROR);
+    } finally {
+      setIsDownloadingInvoice(false);
     }
   };
 
@@ -201,19 +237,25 @@ const ProjectDetailsViewerPage: React.FC = () => {
           <div className="lg:col-span-2 space-y-6">
             <div><h2 className="text-xl font-semibold text-gray-700 mb-2 border-b pb-2">Project Description</h2><p className="text-gray-600 whitespace-pre-line">{project.description}</p></div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div><h3 className="text-md font-semibold text-gray-700 mb-1">Compensation</h3><p className="text-gray-600 flex items-center">{project.compensation_model === CompensationModel.STIPEND ? <DollarSign size={18} className="mr-2 text-green-600"/> : <Briefcase size={18} className="mr-2 text-gray-500"/>}{project.compensation_model.replace(/_/g, ' ')}{project.compensation_model === CompensationModel.STIPEND && project.stipend_amount && ` ($${project.stipend_amount})`}</p></div>
+              <div><h3 className="text-md font-semibold text-gray-700 mb-1">Compensation</h3><p className="text-gray-600 flex items-center">{project.compensation_model === CompensationModel.STIPEND ? <DollarSign size={18} className="mr-2 text-green-600"/> : <Briefcase size={18} className="mr-2 text-gray-500"/>}{project.compensation_model.replace(/_/g, ' ')}{project.compensation_model === CompensationModel.STIPEND && project.stipend_amount && ` (${formatCurrency(project.stipend_amount, project.currency)})`}</p></div>
               <div><h3 className="text-md font-semibold text-gray-700 mb-1">Application Deadline</h3><p className="text-gray-600 flex items-center"><CalendarDays size={18} className="mr-2 text-red-500"/>{project.application_deadline ? new Date(project.application_deadline).toLocaleDateString() : 'Not specified'}</p></div>
             </div>
             {project.required_skills?.length > 0 && <div><h3 className="text-md font-semibold text-gray-700 mb-2">Required Skills</h3><div className="flex flex-wrap gap-2">{project.required_skills.map(skill => <span key={skill} className="bg-primary-light text-primary-dark px-3 py-1 rounded-full text-sm">{skill}</span>)}</div></div>}
             {project.deliverables?.length > 0 && <div><h3 className="text-md font-semibold text-gray-700 mb-2">Deliverables</h3><ul className="list-disc list-inside text-gray-600 space-y-1">{project.deliverables.map((del, i) => <li key={i}>{del}</li>)}</ul></div>}
             {project.confidentiality_agreement_required && <div className="text-sm text-orange-600 bg-orange-100 p-3 rounded-md">Note: A confidentiality agreement will be required for this project.</div>}
-            {project.milestones?.length > 0 && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Project Milestones</h2><div className="space-y-3">{project.milestones.map(milestone => <MilestoneItem key={milestone.id} milestone={milestone} isEditable={isOwner} onFund={isOwner ? () => handleFundMilestone(milestone) : undefined} onMarkComplete={isOwner ? () => handleMarkMilestoneComplete(milestone.id) : undefined}/>)}</div></div>}
+            {project.milestones?.length > 0 && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Project Milestones</h2><div className="space-y-3">{project.milestones.map(milestone => <MilestoneItem key={milestone.id} milestone={milestone} isEditable={isOwner} onFund={isOwner ? () => handleFundMilestone(milestone) : undefined} isFunding={fundingMilestoneId === milestone.id} onSubmitWork={isAcceptedContributor ? handleSubmitMilestone : undefined} onReview={isOwner ? handleReviewSubmission : undefined} onDownloadReceipt={isOwner || isAcceptedContributor ? handleDownloadReceipt : undefined} isDownloadingReceipt={downloadingReceiptId === milestone.id} viewerUserId={user?.id} contributors={isOwner ? acceptedContributors : undefined} onSaveAllocations={isOwner ? handleSaveAllocations : undefined}/>)}</div></div>}
+            {(isOwner || user?.role === UserRole.ADMIN) && project.compensation_model === CompensationModel.STIPEND && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Finances</h2><ProjectLedgerSummary projectId={project.id} canRecordDisbursements={user?.role === UserRole.ADMIN} /></div>}
+            {(isOwner || isAcceptedContributor) && !!project.milestones?.length && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Timesheets</h2><TimesheetPanel project={project} isOwner={isOwner} /></div>}
+            {(isOwner || isAcceptedContributor) && project.compensation_model === CompensationModel.CO_AUTHORSHIP && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Contribution Roles</h2><ContributionRolesPanel project={project} isOwner={isOwner} contributors={isOwner ? acceptedContributors : user ? [{ id: user.id, name: user.name }] : []} /></div>}
+            {(isOwner || isAcceptedContributor) && project.status === ProjectStatus.COMPLETED && project.compensation_model !== CompensationModel.STIPEND && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Certificates & Letters</h2><CredentialsPanel project={project} isOwner={isOwner} contributors={isOwner ? acceptedContributors : []} /></div>}
+            {(isOwner || isAcceptedContributor) && project.status === ProjectStatus.COMPLETED && <div><h2 className="text-xl font-semibold text-gray-700 mb-3 border-b pb-2">Ratings</h2><ProjectRatingsPanel projectId={project.id} ratees={isOwner ? acceptedContributors : [{ id: project.posted_by_user_id, name: project.posted_by_user?.name || 'Research lead' }]} /></div>}
             {isApplying && canApply && <div className="mt-8"><ApplicationForm project={project} /></div>}
           </div>
           <aside className="lg:col-span-1 space-y-6">
             {canApply && !isApplying && <Button onClick={() => setIsApplying(true)} variant="primary" size="lg" className="w-full" leftIcon={<Edit3 size={18}/>}>Apply to this Project</Button>}
             {hasApplied && !isOwner && <div className="p-4 bg-green-50 border border-green-200 rounded-md text-green-700 text-center">You have applied to this project. Status: <strong>{viewerApplicationStatus}</strong></div>}
             {canManage && project.id && <Link to={`/projects/${project.id}/edit`}><Button variant="outline" size="lg" className="w-full" leftIcon={<Edit3 size={18}/>}>Edit Project Details</Button></Link>}
+            {canManage && !!project.milestones?.length && <Button variant="outline" size="lg" className="w-full" onClick={handleDownloadInvoice} isLoading={isDownloadingInvoice} leftIcon={<FileText size={18}/>}>Download Invoice</Button>}
             <div className="p-4 bg-gray-50 rounded-lg border">
               <h3 className="font-semibold text-gray-700 mb-2">About the Research Lead</h3>
               <div className="flex items-center space-x-3">
@@ -226,11 +268,7 @@ const ProjectDetailsViewerPage: React.FC = () => {
         {canChat && (
           <div className="p-6 md:p-8 border-t">
             <h2 className="text-xl font-semibold text-gray-700 mb-4">Project Chat</h2>
-            <div className="h-96 overflow-y-auto border rounded-md p-4 mb-4 bg-gray-50 space-y-3">
-              {messages.map(msg => (<div key={msg.id} className={`flex ${msg.sender_user_id === user?.id ? 'justify-end' : 'justify-start'}`}><div className={`max-w-xs lg:max-w-md p-3 rounded-lg shadow ${msg.sender_user_id === user?.id ? 'bg-primary text-white' : 'bg-white text-gray-800 border'}`}><p className="text-xs font-semibold mb-0.5 opacity-80">{msg.sender_user?.name || 'User'} {msg.sender_user_id === user?.id ? '(You)' : ''}</p><p className="text-sm">{msg.message_text}</p>{msg.attachment_url && <a href={msg.attachment_url} target="_blank" rel="noopener noreferrer" className={`mt-1 text-xs flex items-center ${msg.sender_user_id === user?.id ? 'text-blue-200 hover:text-blue-100' : 'text-primary hover:text-primary-dark'}`}><Paperclip size={14} className="mr-1"/> View Attachment</a>}<p className="text-xs opacity-60 mt-1 text-right">{new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p></div></div>))}
-              {messages.length === 0 && <p className="text-gray-500 italic text-center py-8">No messages yet.</p>}
-            </div>
-            <div className="mt-4"><Textarea name="newMessage" value={newMessage} onChange={(e) => setNewMessage(e.target.value)} placeholder="Type your message..." rows={3} containerClassName="mb-2" onKeyDown={(e) => {if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); }}}/><div className="flex justify-between items-center"><div className="flex items-center gap-2"><label htmlFor="chat-file-upload" className="cursor-pointer text-gray-500 hover:text-primary"><Paperclip size={22} /></label><input id="chat-file-upload" type="file" className="hidden" onChange={(e) => setAttachment(e.target.files ? e.target.files[0] : null)}/>{attachment && <span className="text-sm text-gray-700">{attachment.name} <button onClick={() => setAttachment(null)} className="text-red-600 hover:text-red-800">×</button></span>}</div><Button onClick={handleSendMessage} disabled={(!newMessage.trim() && !attachment) || isSendingMessage} leftIcon={<Send size={16}/>} isLoading={isSendingMessage}>Send</Button></div></div>
+            <ProjectChat projectId={project.id} currentUser={user} />
           </div>
         )}
         {isOwner && project.id && (
@@ -245,12 +283,13 @@ const ProjectDetailsViewerPage: React.FC = () => {
                         <h4 className="font-semibold text-primary">{app.contributor_user?.name || 'Applicant'}</h4>
                       </Link>
                       <p className="text-sm text-gray-500">{app.contributor_user?.email || 'No email'}</p>
+                      <div className="mt-1"><ReputationBadge reputation={app.contributor_user?.reputation} /></div>
                       <p className="text-xs text-gray-400 mt-0.5">Applied: {new Date(app.created_at || Date.now()).toLocaleDateString()}</p>
                     </div>
                     <span className={`px-2 py-1 text-xs font-semibold rounded-full ${app.status === ApplicationStatus.ACCEPTED ? 'bg-green-100 text-green-700' : app.status === ApplicationStatus.SHORTLISTED ? 'bg-yellow-100 text-yellow-700' : app.status === ApplicationStatus.REJECTED ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'}`}>{app.status}</span>
                   </div>
                   <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{app.proposal_text}</p>
-                  {(app.cv_url || app.linkedin_url || app.availability || app.proposed_rate) && <div className="mt-2 text-xs space-y-0.5">{app.availability && <p><strong>Availability:</strong> {app.availability}</p>}{app.proposed_rate && <p><strong>Rate:</strong> ${app.proposed_rate}</p>}{app.cv_url && <a href={app.cv_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline block">View CV/Resume</a>}{app.linkedin_url && <a href={app.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline block">LinkedIn Profile</a>}</div>}
+                  {(app.cv_url || app.linkedin_url || app.availability || app.proposed_rate) && <div className="mt-2 text-xs space-y-0.5">{app.availability && <p><strong>Availability:</strong> {app.availability}</p>}{app.proposed_rate && <p><strong>Rate:</strong> {formatCurrency(app.proposed_rate, project.currency)}</p>}{app.cv_url && <a href={app.cv_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline block">View CV/Resume</a>}{app.linkedin_url && <a href={app.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline block">LinkedIn Profile</a>}</div>}
                   <div className="mt-3 flex space-x-2 flex-wrap gap-y-2">
                     <Link to={`/profile/${app.contributor_user_id}`}><Button size="sm" variant="outline" leftIcon={<User size={14} />}>View Profile</Button></Link>
                     {(app.status === ApplicationStatus.PENDING || app.status === ApplicationStatus.SHORTLISTED) && (<>
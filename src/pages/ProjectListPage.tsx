@@ -4,6 +4,7 @@ import { useSearchParams } from 'react-router-dom';
 import { Project, CompensationModel, ProjectStatus } from '../types.ts';
 import { getProjects } from '../services/apiService.ts';
 import ProjectCard from '../components/projects/ProjectCard.tsx';
+import { useUnreadMessageCounts } from '../hooks/useUnreadMessageCounts.ts';
 import Spinner from '../components/ui/Spinner.tsx';
 import Button from '../components/ui/Button.tsx';
 import Input from '../components/ui/Input.tsx';
@@ -17,6 +18,7 @@ const ProjectListPage: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const unreadMessageCounts = useUnreadMessageCounts();
 
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -187,7 +189,7 @@ const ProjectListPage: React.FC = () => {
         <>
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
             {projects.map(project => (
-              <ProjectCard key={project.id} project={project} />
+              <ProjectCard key={project.id} project={project} unreadMessageCount={unreadMessageCounts[project.id]} />
             ))}
           </div>
 
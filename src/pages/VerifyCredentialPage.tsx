@@ -0,0 +1,113 @@
+// pages/VerifyCredentialPage.tsx
+// Public check of a certificate or recommendation letter by the code printed on its PDF.
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { verifyCredential } from '../services/apiService.ts';
+import { CredentialStatus, CredentialVerification } from '../types.ts';
+import { CREDENTIAL_KIND_LABELS } from '../constants.ts';
+import Input from '../components/ui/Input.tsx';
+import Button from '../components/ui/Button.tsx';
+import Spinner from '../components/ui/Spinner.tsx';
+import { AlertTriangle, CheckCircle, Search, XCircle } from 'lucide-react';
+
+const VerifyCredentialPage: React.FC = () => {
+  const { code } = useParams<{ code?: string }>();
+  const navigate = useNavigate();
+
+  const [codeInput, setCodeInput] = useState(code || '');
+  const [result, setResult] = useState<CredentialVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCodeInput(code || '');
+    setResult(null);
+    setError(null);
+    if (!code) return;
+
+    let cancelled = false;
+    const runCheck = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error: verifyError } = await verifyCredential(code);
+        if (verifyError) throw verifyError;
+        if (!cancelled) setResult(data);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Verification failed. Please try again.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    runCheck();
+    return () => { cancelled = true; };
+  }, [code]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = codeInput.trim().toUpperCase();
+    if (trimmed) navigate(`/verify/${encodeURIComponent(trimmed)}`);
+  };
+
+  const isValid = result?.status === CredentialStatus.SIGNED;
+
+  return (
+    <div className="container mx-auto p-4 md:p-8">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-3xl font-bold text-primary mb-2">Verify a Document</h1>
+        <p className="text-gray-600 mb-6">Enter the verification code printed on a certificate or recommendation letter to check that it is authentic.</p>
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2 mb-8">
+          <Input
+            name="verification-code"
+            label="Verification code"
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX"
+            className="font-mono uppercase"
+            containerClassName="mb-0 flex-grow"
+          />
+          <Button type="submit" variant="primary" leftIcon={<Search size={16} />} disabled={!codeInput.trim()}>Verify</Button>
+        </form>
+
+        {isLoading && <div className="flex justify-center py-8"><Spinner size="lg" /></div>}
+
+        {!isLoading && error && <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">{error}</div>}
+
+        {!isLoading && !error && code && !result && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 flex items-start">
+            <XCircle size={20} className="mr-2 flex-shrink-0" />
+            <span>No document was issued with the code <span className="font-mono font-semibold">{code}</span>. Check it for typos; it may also be a forgery.</span>
+          </div>
+        )}
+
+        {!isLoading && result && (
+          <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+            <div className={`p-4 flex items-start ${isValid ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'}`}>
+              {isValid ? <CheckCircle size={20} className="mr-2 flex-shrink-0" /> : <AlertTriangle size={20} className="mr-2 flex-shrink-0" />}
+              <span>
+                {isValid
+                  ? `This ${CREDENTIAL_KIND_LABELS[result.kind].toLowerCase()} is authentic.`
+                  : `This ${CREDENTIAL_KIND_LABELS[result.kind].toLowerCase()} was revoked by its issuer${result.revoked_at ? ` on ${new Date(result.revoked_at).toLocaleDateString()}` : ''} and is no longer valid.`}
+              </span>
+            </div>
+            <div className="p-6 space-y-4">
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div><dt className="font-semibold text-gray-700">Issued to</dt><dd className="text-gray-600">{result.contributor.name}{result.contributor.institution && ` (${result.contributor.institution})`}</dd></div>
+                <div><dt className="font-semibold text-gray-700">Issued by</dt><dd className="text-gray-600">{result.issuer.name}{result.issuer.institution && ` (${result.issuer.institution})`}</dd></div>
+                <div><dt className="font-semibold text-gray-700">Project</dt><dd className="text-gray-600">{result.project.title}</dd></div>
+                <div><dt className="font-semibold text-gray-700">Signed</dt><dd className="text-gray-600">{result.signed_name}, {new Date(result.signed_at).toLocaleDateString()}</dd></div>
+              </dl>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800 mb-2">{result.title}</h2>
+                <p className="text-gray-700 whitespace-pre-line font-serif border-l-4 border-gray-200 pl-4">{result.body}</p>
+                <p className="text-xs text-gray-500 mt-2">Compare this text with the document you were given; it must match.</p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyCredentialPage;
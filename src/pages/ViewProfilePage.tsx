@@ -1,10 +1,13 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth.ts';
-import { getUserProfile } from '../services/apiService.ts';
-import { UserProfile } from '../types.ts';
+import { getUserProfile, getUserReputation } from '../services/apiService.ts';
+import { UserProfile, UserReputation, UserRole } from '../types.ts';
 import Spinner from '../components/ui/Spinner.tsx';
 import Button from '../components/ui/Button.tsx';
+import UserRatingsOverview from '../components/ratings/UserRatingsOverview.tsx';
+import ReputationBadge from '../components/ratings/ReputationBadge.tsx';
+import UserContributionRoles from '../components/credits/UserContributionRoles.tsx';
 import { Mail, Building, Award, Edit, Tag } from 'lucide-react';
 
 const ViewProfilePage: React.FC = () => {
@@ -12,6 +15,7 @@ const ViewProfilePage: React.FC = () => {
     const { user: currentUser, loading: authLoading } = useAuth();
     
     const [profile, setProfile] = useState<UserProfile | null>(null);
+    const [reputation, setReputation] = useState<UserReputation | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -26,9 +30,11 @@ const ViewProfilePage: React.FC = () => {
         setIsLoading(true);
         setError(null);
         try {
-            const { data, error: fetchError } = await getUserProfile(userId);
-            if (fetchError) throw fetchError;
-            setProfile(data);
+            const [profileRes, reputationRes] = await Promise.all([getUserProfile(userId), getUserReputation(userId)]);
+            if (profileRes.error) throw profileRes.error;
+            setProfile(profileRes.data);
+            // The profile is still worth showing without its reputation.
+            setReputation(reputationRes.error ? null : reputationRes.data);
         } catch (err: any) {
             setError(err.message || 'Failed to load profile.');
         } finally {
@@ -118,6 +124,23 @@ const ViewProfilePage: React.FC = () => {
                             This user has not added a biography or skills yet.
                         </div>
                     )}
+
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-700 border-b pb-2 mb-3">Reputation</h2>
+                        <ReputationBadge reputation={reputation} detailed />
+                    </div>
+
+                    {profile.role === UserRole.CONTRIBUTOR && (
+                        <div>
+                            <h2 className="text-xl font-semibold text-gray-700 border-b pb-2 mb-3">Research Contributions (CRediT)</h2>
+                            <UserContributionRoles userId={profile.id} />
+                        </div>
+                    )}
+
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-700 border-b pb-2 mb-3">Ratings & Reviews</h2>
+                        <UserRatingsOverview userId={profile.id} />
+                    </div>
                 </div>
             </div>
         </div>
@@ -1,11 +1,17 @@
 // services/apiService.ts
 import { supabase } from '../lib/supabaseClient.ts';
 import { 
-  Project, ProjectInput, Application, ApplicationInput, UserProfile, UserRole, Message, Milestone, 
-  MilestoneStatus, ProjectStatus, ApplicationStatus,
-  AppNotification, NotificationTypeEnum // Added for in-app notifications
+  Project, ProjectInput, Application, ApplicationInput, UserProfile, UserRole, Message, MessageCursor, MessageRead, MessageRevision, Milestone, 
+  MilestoneStatus, MilestoneSubmission, MilestoneSubmissionStatus, ProjectStatus, ApplicationStatus,
+  MilestoneAllocation, MilestoneAllocationInput, MilestoneAllocationBalance,
+  LedgerTransaction, LedgerTransactionKind, MilestoneLedgerBalance, ProjectLedgerBalance, ExchangeRate, ExchangeRateInput, StipendReportRow,
+  Rating, RatingInput, UserRatingSummary, UserReputation, Credential, CredentialInput, CredentialVerification,
+  ContributionCredit, CreditRole,
+  MilestoneReceipt, ProjectInvoice, TimesheetEntry, TimesheetEntryInput, TimesheetStatus, MilestoneTimesheetSummary,
+  AppNotification, AppNotificationGroup, NotificationFilters, NotificationPreference, NotificationPreferenceInput, PushSubscriptionRecord // Added for in-app notifications
 } from '../types.ts'; 
-import { PAGINATION_PAGE_SIZE } from '../constants.ts';
+import { CHAT_PAGE_SIZE, PAGINATION_PAGE_SIZE } from '../constants.ts';
+import { getPushSubscriptionKeys } from '../lib/webPush.ts';
 import { PostgrestSingleResponse, PostgrestResponse } from '@supabase/supabase-js';
 
 // Helper to get current user ID
@@ -14,85 +20,31 @@ const getCurrentUserId = async (): Promise<string | undefined> => {
   return session?.user?.id;
 };
 
-// --- IN-APP NOTIFICATIONS (Helper - defined first for use below) ---
-
-interface CreateNotificationInput {
-  user_id: string; 
-  type: NotificationTypeEnum;
-  message: string;
-  link?: string;
-  related_project_id?: string;
-  related_application_id?: string;
-  related_milestone_id?: string;
-}
-
-export const createDBNotification = async (notificationData: CreateNotificationInput): Promise<PostgrestSingleResponse<AppNotification>> => {
-  console.log("Attempting to create DB Notification for user:", notificationData.user_id, "Data:", notificationData);
-  // WARNING: Direct client-side inserts for *another user* will likely be blocked by RLS on 'notifications' table.
-  // This needs to be handled by an Edge Function using service_role key for proper multi-user notifications.
-  const { data, error } = await supabase
-    .from('notifications')
-    .insert(notificationData)
-    .select()
-    .single();
-
-  if (error) {
-    console.error("Error creating DB notification:", error, "Input data:", notificationData);
-  } else {
-    console.log("DB Notification created successfully:", data);
-  }
-  // Ensure the return type matches PostgrestSingleResponse structure
-  return { data, error, count: data ? 1 : 0, status: error ? 500 : 201, statusText: error ? error.message : "Created" };
-};
+// In-app notifications are created server-side by the triggers in supabase_schema.sql
+// (see "NOTIFICATION FAN-OUT") whenever an application, milestone, message or project changes.
+// The client only reads them and marks them as read (bottom of this file).
 
 
 // PROJECTS
+// The project and its milestones are created together by the create_project_with_milestones function:
+// either both are stored or neither is. The returned project carries the stored milestones.
 export const createProject = async (projectData: ProjectInput): Promise<PostgrestSingleResponse<Project>> => {
   const userId = await getCurrentUserId();
   if (!userId) throw new Error("User not authenticated");
 
-  const { milestones: milestoneInputs, ...coreProjectData } = projectData;
-  
-  const response = await supabase
-    .from('projects')
-    .insert({ ...coreProjectData, posted_by_user_id: userId, status: ProjectStatus.OPEN })
-    .select()
-    .single();
-
-  if (response.error) {
-    console.error('Error creating project:', response.error);
-    return { data: null, error: response.error, count: null, status: 500, statusText: "Error creating project" };
-  }
-
-  const project = response.data as Project;
-
-  if (project && milestoneInputs && milestoneInputs.length > 0) {
-    const milestonesToInsert = milestoneInputs.map(m => ({
-      ...m,
-      project_id: project.id,
-      status: MilestoneStatus.PENDING,
-    }));
-    const { error: milestoneError } = await supabase
-      .from('milestones')
-      .insert(milestonesToInsert);
-    
-    if (milestoneError) {
-      console.error('Error creating milestones, project created but milestones failed:', milestoneError);
-      return { data: project, error: milestoneError, count: 1, status: 207, statusText: "Project created, milestones failed" };
-    }
-    project.milestones = milestonesToInsert.map(m => ({ ...m, id: crypto.randomUUID() })) as Milestone[];
-  }
-  
-  // No notification for project creation itself to the creator, usually.
-  // Could notify admins if desired, but that's a separate flow.
-  return { data: project, error: null, count: 1, status: 201, statusText: "Created" };
+  const { milestones, ...coreProjectData } = projectData;
+  return supabase
+    .rpc('create_project_with_milestones', {
+      p_project: coreProjectData,
+      p_milestones: (milestones || []).map(({ id, status, ...milestone }) => milestone),
+    })
+    .single<Project>(); // One jsonb object: the project with its milestones
 };
 
-// ... getProjects, getProjectById, updateProject (no direct notification triggers here yet) ...
 export const getProjects = async (page: number = 1, filters: any = {}): Promise<PostgrestSingleResponse<Project[]>> => {
   let query = supabase.from('projects').select(`
     *, 
-    posted_by_user:users(id, name, institution, profile_photo_url, is_anonymous), 
+    posted_by_user:users(id, name, institution, profile_photo_url, is_anonymous, reputation:user_reputation(*)), 
     milestones(*)
   `);
 
@@ -126,46 +78,29 @@ export const getProjectById = async (id: string): Promise<PostgrestSingleRespons
     .select(`
       *,
       posted_by_user:users(id, name, institution, profile_photo_url, is_anonymous),
-      milestones(*),
-      applications(*, contributor_user:users(id, name, email, profile_photo_url))
+      milestones(*, submissions:milestone_submissions(*, submitted_by_user:users(id, name)), allocations:milestone_allocations(*, contributor_user:users(id, name))),
+      applications(*, contributor_user:users(id, name, email, profile_photo_url, reputation:user_reputation(*)))
     `)
     .eq('id', id)
     .single() as Promise<PostgrestSingleResponse<Project>>;
 };
 
-type ProjectDirectUpdatableFields = Partial<Omit<ProjectInput, 'milestones'>>;
-
+// Project fields and milestones are saved together by the update_project_with_milestones function, in one
+// transaction. Leave `milestones` out to keep them as they are; otherwise the list replaces the current one
+// (entries without an id are added, missing ones deleted). Approved, completed and paid milestones are refused.
 export const updateProject = async (
   id: string,
-  updates: ProjectDirectUpdatableFields & { status?: ProjectStatus }
+  updates: Partial<ProjectInput> & { status?: ProjectStatus }
 ): Promise<PostgrestSingleResponse<Project>> => {
-  const { milestones, ...projectTableUpdates } = updates as ProjectInput;
-  // If project status changes significantly (e.g., to 'completed' or 'cancelled'),
-  // could notify accepted applicants. This requires fetching them.
-  const response = await supabase
-    .from('projects')
-    .update(projectTableUpdates)
-    .eq('id', id)
-    .select()
+  const { milestones, ...projectTableUpdates } = updates;
+  // Status changes are announced to accepted contributors by the notify_projects_status_update trigger.
+  return supabase
+    .rpc('update_project_with_milestones', {
+      p_project_id: id,
+      p_project: projectTableUpdates,
+      p_milestones: milestones ? milestones.map(({ status, ...milestone }) => milestone) : null,
+    })
     .single();
-
-    // Example: If project status is updated by owner.
-    // This logic should ideally be in an Edge Function to fetch project details securely.
-    // if (!response.error && updates.status && response.data) {
-    //     const projectDetails = response.data;
-    //     projectDetails.applications?.forEach(app => {
-    //         if (app.status === ApplicationStatus.ACCEPTED) {
-    //             createDBNotification({
-    //                 user_id: app.contributor_user_id,
-    //                 type: NotificationTypeEnum.PROJECT_MILESTONE_UPDATE, // Or a more generic project update type
-    //                 message: `Project "${projectDetails.title}" status updated to ${updates.status}.`,
-    //                 link: `/projects/${projectDetails.id}`,
-    //                 related_project_id: projectDetails.id
-    //             });
-    //         }
-    //     });
-    // }
-  return response;
 };
 
 
@@ -174,29 +109,12 @@ export const createApplication = async (applicationData: ApplicationInput): Prom
   const userId = await getCurrentUserId();
   if (!userId) throw new Error("User not authenticated");
   
-  const response = await supabase
+  // The project owner is notified by the notify_applications_insert trigger.
+  return supabase
     .from('applications')
     .insert({ ...applicationData, contributor_user_id: userId, status: ApplicationStatus.PENDING })
-    .select('*, project:projects(posted_by_user_id, title)') // Fetch project owner and title
+    .select('*, project:projects(id, title, currency)')
     .single();
-
-  if (!response.error && response.data && response.data.project) {
-    const projectOwnerId = response.data.project.posted_by_user_id;
-    const projectTitle = response.data.project.title;
-    const applicant = await getUserProfile(userId); // Get applicant name
-
-    if (projectOwnerId && applicant.data) {
-      createDBNotification({
-        user_id: projectOwnerId,
-        type: NotificationTypeEnum.NEW_APPLICATION,
-        message: `You have a new application from ${applicant.data.name} for your project: "${projectTitle}".`,
-        link: `/projects/${applicationData.project_id}/manage`, // Link to manage applications view
-        related_project_id: applicationData.project_id,
-        related_application_id: response.data.id
-      }).catch(err => console.error("Failed to create notification for new application:", err)); // Log error but don't fail application
-    }
-  }
-  return response as PostgrestSingleResponse<Application>; // Cast needed because of joined project
 };
 
 export const getApplicationsForUser = async (): Promise<PostgrestSingleResponse<Application[]>> => {
@@ -205,7 +123,7 @@ export const getApplicationsForUser = async (): Promise<PostgrestSingleResponse<
 
   return supabase
     .from('applications')
-    .select('*, project:projects(id, title)')
+    .select('*, project:projects(id, title, currency)')
     .eq('contributor_user_id', userId)
     .order('created_at', { ascending: false });
 };
@@ -213,39 +131,22 @@ export const getApplicationsForUser = async (): Promise<PostgrestSingleResponse<
 export const getApplicationsForProject = async (projectId: string): Promise<PostgrestSingleResponse<Application[]>> => {
   return supabase
     .from('applications')
-    .select('*, contributor_user:users(id, name, email, profile_photo_url)')
+    .select('*, contributor_user:users(id, name, email, profile_photo_url, reputation:user_reputation(*))')
     .eq('project_id', projectId)
     .order('created_at', { ascending: false });
 };
 
 export const updateApplicationStatus = async (
   applicationId: string, 
-  newStatus: ApplicationStatus,
-  applicantUserId?: string, // Pass this from where you call it if available
-  projectId?: string,       // Pass this
-  projectTitle?: string     // Pass this
+  newStatus: ApplicationStatus
 ): Promise<PostgrestSingleResponse<Application>> => {
-  
-  const response = await supabase
+  // The applicant is notified by the notify_applications_status_update trigger.
+  return supabase
     .from('applications')
     .update({ status: newStatus })
     .eq('id', applicationId)
     .select()
     .single();
-
-  if (!response.error && response.data && applicantUserId && projectId && projectTitle) {
-    if (newStatus === ApplicationStatus.ACCEPTED || newStatus === ApplicationStatus.REJECTED || newStatus === ApplicationStatus.SHORTLISTED) {
-      createDBNotification({
-        user_id: applicantUserId,
-        type: NotificationTypeEnum.APPLICATION_STATUS_UPDATE,
-        message: `Your application status for project "${projectTitle}" has been updated to: ${newStatus}.`,
-        link: `/projects/${projectId}`, // Link to project page or 'my applications'
-        related_project_id: projectId,
-        related_application_id: applicationId
-      }).catch(err => console.error("Failed to create notification for application status update:", err));
-    }
-  }
-  return response;
 };
 
 // USER PROFILE
@@ -253,70 +154,285 @@ export const getUserProfile = async (userId: string): Promise<PostgrestSingleRes
   return supabase.from('users').select('*').eq('id', userId).single();
 };
 
+// RATINGS
+// Leads and accepted contributors rate each other once a project is completed (RLS). Ratings can be
+// changed or deleted for RATING_EDIT_WINDOW_DAYS after they were given.
+export const getRatingsForUser = async (userId: string): Promise<PostgrestResponse<Rating>> => {
+  return supabase
+    .from('ratings')
+    .select('*, rated_by_user:users!rated_by_user_id(id, name, profile_photo_url), project:projects(id, title)')
+    .eq('rated_user_id', userId)
+    .order('created_at', { ascending: false });
+};
+
+export const getRatingSummaryForUser = async (userId: string): Promise<PostgrestSingleResponse<UserRatingSummary | null>> => {
+  return supabase
+    .from('user_rating_summaries')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+};
+
+// Ratings the current user has given on one project.
+export const getMyRatingsForProject = async (projectId: string): Promise<PostgrestResponse<Rating>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('ratings')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('rated_by_user_id', userId);
+};
+
+export const createRating = async (
+  projectId: string,
+  ratedUserId: string,
+  rating: RatingInput
+): Promise<PostgrestSingleResponse<Rating>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('ratings')
+    .insert({ ...rating, comments: rating.comments || null, project_id: projectId, rated_user_id: ratedUserId, rated_by_user_id: userId })
+    .select()
+    .single();
+};
+
+export const updateRating = async (ratingId: string, rating: RatingInput): Promise<PostgrestSingleResponse<Rating>> => {
+  return supabase
+    .from('ratings')
+    .update({ ...rating, comments: rating.comments || null })
+    .eq('id', ratingId)
+    .select()
+    .single();
+};
+
+export const deleteRating = async (ratingId: string): Promise<PostgrestResponse<Rating>> => {
+  return supabase
+    .from('ratings')
+    .delete()
+    .eq('id', ratingId)
+    .select();
+};
+
+// REPUTATION
+// Read-only: user_reputation is maintained by database triggers.
+export const getUserReputation = async (userId: string): Promise<PostgrestSingleResponse<UserReputation | null>> => {
+  return supabase
+    .from('user_reputation')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+};
+
+// CREDENTIALS
+// Leads draft certificates and recommendation letters for accepted contributors of completed projects,
+// then sign them (sign_credential), which freezes the text and assigns a verification code.
+const CREDENTIAL_SELECT = '*, project:projects(id, title), contributor_user:users!contributor_user_id(id, name, institution), issued_by_user:users!issued_by_user_id(id, name, institution, email)';
+
+export const getCredentialsForProject = async (projectId: string): Promise<PostgrestResponse<Credential>> => {
+  return supabase
+    .from('credentials')
+    .select(CREDENTIAL_SELECT)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+};
+
+export const createCredentialDraft = async (
+  projectId: string,
+  contributorUserId: string,
+  credential: CredentialInput
+): Promise<PostgrestSingleResponse<Credential>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('credentials')
+    .insert({ ...credential, project_id: projectId, contributor_user_id: contributorUserId, issued_by_user_id: userId })
+    .select(CREDENTIAL_SELECT)
+    .single();
+};
+
+export const updateCredentialDraft = async (credentialId: string, credential: Pick<CredentialInput, 'title' | 'body'>): Promise<PostgrestSingleResponse<Credential>> => {
+  return supabase
+    .from('credentials')
+    .update({ title: credential.title, body: credential.body })
+    .eq('id', credentialId)
+    .select(CREDENTIAL_SELECT)
+    .single();
+};
+
+export const deleteCredentialDraft = async (credentialId: string): Promise<PostgrestResponse<Credential>> => {
+  return supabase
+    .from('credentials')
+    .delete()
+    .eq('id', credentialId)
+    .select();
+};
+
+export const signCredential = async (credentialId: string, signedName: string): Promise<PostgrestSingleResponse<Credential>> => {
+  return supabase.rpc('sign_credential', { p_credential_id: credentialId, p_signed_name: signedName });
+};
+
+export const revokeCredential = async (credentialId: string): Promise<PostgrestSingleResponse<Credential>> => {
+  return supabase.rpc('revoke_credential', { p_credential_id: credentialId });
+};
+
+// Public: works without a session. data is null for unknown codes.
+export const verifyCredential = async (code: string): Promise<PostgrestSingleResponse<CredentialVerification | null>> => {
+  return supabase.rpc('verify_credential', { p_code: code });
+};
+
+// CONTRIBUTION CREDITS
+// CRediT roles on co-authorship projects. Proposing a role the other party already proposed confirms it.
+export const getContributionCreditsForProject = async (projectId: string): Promise<PostgrestResponse<ContributionCredit>> => {
+  return supabase
+    .from('contribution_credits')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('role', { ascending: true });
+};
+
+// Roles confirmed by both parties, for the contributor's profile.
+export const getConfirmedContributionCreditsForUser = async (userId: string): Promise<PostgrestResponse<ContributionCredit>> => {
+  return supabase
+    .from('contribution_credits')
+    .select('*, project:projects(id, title)')
+    .eq('contributor_user_id', userId)
+    .eq('is_confirmed', true)
+    .order('created_at', { ascending: false });
+};
+
+export const proposeContributionRoles = async (
+  projectId: string,
+  contributorUserId: string,
+  roles: CreditRole[]
+): Promise<PostgrestResponse<ContributionCredit>> => {
+  return supabase.rpc('propose_contribution_roles', { p_project_id: projectId, p_contributor_user_id: contributorUserId, p_roles: roles });
+};
+
+export const withdrawContributionCredit = async (creditId: string): Promise<PostgrestResponse<ContributionCredit>> => {
+  return supabase
+    .from('contribution_credits')
+    .delete()
+    .eq('id', creditId)
+    .select();
+};
+
 // MESSAGES
-export const sendMessage = async (projectId: string, messageText: string, attachmentUrl?: string): Promise<PostgrestSingleResponse<Message>> => {
+// Pass parentMessageId to reply in the thread of a top-level message.
+export const sendMessage = async (projectId: string, messageText: string, attachmentUrl?: string, parentMessageId?: string): Promise<PostgrestSingleResponse<Message>> => {
   const currentUserId = await getCurrentUserId();
   if (!currentUserId) throw new Error("User not authenticated");
 
-  const response = await supabase
+  // Other project participants are notified by the notify_messages_insert trigger.
+  return supabase
     .from('messages')
-    .insert({ project_id: projectId, sender_user_id: currentUserId, message_text: messageText, attachment_url: attachmentUrl })
+    .insert({ project_id: projectId, sender_user_id: currentUserId, message_text: messageText, attachment_url: attachmentUrl, parent_message_id: parentMessageId })
     .select('*, sender_user:users(id, name, profile_photo_url)')
     .single();
+};
+
+// One page of a project's top-level chat, always returned oldest first. Without a cursor this is the latest page;
+// 'older' pages end just before the cursor and 'newer' pages start just after it.
+export const getMessagesForProject = async (
+  projectId: string,
+  options: { cursor?: MessageCursor; direction?: 'older' | 'newer'; limit?: number } = {}
+): Promise<PostgrestResponse<Message>> => {
+  const { cursor, direction = 'older', limit = CHAT_PAGE_SIZE } = options;
+  const ascending = direction === 'newer';
+  let query = supabase
+    .from('messages')
+    .select('*, sender_user:users(id, name, profile_photo_url)')
+    .eq('project_id', projectId)
+    .is('parent_message_id', null);
 
-  if (!response.error && response.data) {
-    // Notify other project participants
-    // This needs more robust logic to get all participants (owner + accepted contributors)
-    // and avoid notifying the sender themselves.
-    // Placeholder for Edge Function logic:
-    const projectDetails = (await getProjectById(projectId)).data;
-    if (projectDetails) {
-        const participantsToNotify: string[] = [];
-        // Notify owner if sender is not owner
-        if (projectDetails.posted_by_user_id !== currentUserId) {
-            participantsToNotify.push(projectDetails.posted_by_user_id);
-        }
-        // Notify accepted contributors if sender is not them
-        projectDetails.applications?.forEach(app => {
-            if (app.status === ApplicationStatus.ACCEPTED && app.contributor_user_id !== currentUserId) {
-                participantsToNotify.push(app.contributor_user_id);
-            }
-        });
-        
-        const uniqueParticipants = [...new Set(participantsToNotify)]; // Ensure unique user IDs
-        const senderName = response.data.sender_user?.name || "A user";
-
-        uniqueParticipants.forEach(participantId => {
-            createDBNotification({
-                user_id: participantId,
-                type: NotificationTypeEnum.NEW_MESSAGE_IN_PROJECT,
-                message: `New message from ${senderName} in project: "${projectDetails.title}".`,
-                link: `/projects/${projectId}`, // Link to project chat
-                related_project_id: projectId
-            }).catch(err => console.error("Failed to create notification for new message:", err));
-        });
-    }
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    // Timestamps contain ':' and '+', so they are quoted inside the or() filter.
+    query = query.or(`created_at.${op}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`);
   }
+
+  const response = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit);
+  if (!ascending) response.data?.reverse();
   return response;
 };
 
-// ... (getMessagesForProject, createCheckoutSession, uploadFile remain unchanged from your version) ...
-export const getMessagesForProject = async (projectId: string): Promise<PostgrestSingleResponse<Message[]>> => {
+export const getMessageById = async (messageId: string): Promise<PostgrestSingleResponse<Message>> => {
   return supabase
     .from('messages')
     .select('*, sender_user:users(id, name, profile_photo_url)')
+    .eq('id', messageId)
+    .single();
+};
+
+// Edits and deletes only touch the author's own messages within MESSAGE_EDIT_WINDOW_MINUTES; outside it RLS
+// matches no row, so callers treat an empty result as "too late". The database keeps the replaced version.
+export const editMessage = async (messageId: string, messageText: string): Promise<PostgrestResponse<Message>> => {
+  return supabase
+    .from('messages')
+    .update({ message_text: messageText })
+    .eq('id', messageId)
+    .select('*, sender_user:users(id, name, profile_photo_url)');
+};
+
+export const deleteMessage = async (messageId: string): Promise<PostgrestResponse<Message>> => {
+  return supabase
+    .from('messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .select('*, sender_user:users(id, name, profile_photo_url)');
+};
+
+export const getMessageReadState = async (projectId: string): Promise<PostgrestSingleResponse<MessageRead | null>> => {
+  const currentUserId = await getCurrentUserId();
+  if (!currentUserId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('message_reads')
+    .select('*')
     .eq('project_id', projectId)
-    .order('created_at', { ascending: true });
+    .eq('user_id', currentUserId)
+    .maybeSingle();
 };
 
-export const createCheckoutSession = async (projectId: string, milestoneId: string, amount: number): Promise<{ checkout_url?: string; error?: string }> => {
-  console.warn("Simulating createCheckoutSession. In a real app, this calls a backend API.");
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  if (amount > 0) {
-    return { checkout_url: `https://example.com/stripe-checkout-simulated?project=${projectId}&milestone=${milestoneId}&amount=${amount}` };
-  } else {
-    return { error: "Invalid amount for payment." };
+// Moves the caller's read position to the project's newest message. Returns null while the chat is empty.
+export const markProjectMessagesRead = async (projectId: string): Promise<PostgrestSingleResponse<MessageRead | null>> => {
+  return supabase.rpc('mark_project_messages_read', { p_project_id: projectId });
+};
+
+// Unread chat messages per project the caller takes part in; projects with none are left out.
+export const getUnreadMessageCounts = async (): Promise<PostgrestResponse<{ project_id: string; unread_count: number }>> => {
+  return supabase.rpc('get_unread_message_counts');
+};
+
+// Every reply in a thread, oldest first.
+export const getThreadReplies = async (parentMessageId: string): Promise<PostgrestResponse<Message>> => {
+  return supabase
+    .from('messages')
+    .select('*, sender_user:users(id, name, profile_photo_url)')
+    .eq('parent_message_id', parentMessageId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+};
+
+// Funding a milestone goes through the create-checkout-session Edge Function, which opens a session with the
+// configured payment provider. The milestone is marked PAID later by the payment-webhook function, not here.
+export const createCheckoutSession = async (milestoneId: string): Promise<{ checkout_url?: string; error?: string }> => {
+  const { data, error } = await supabase.functions.invoke<{ checkout_url: string }>('create-checkout-session', {
+    body: { milestone_id: milestoneId },
+  });
+  if (error) {
+    // Non-2xx responses carry { error } in the body; fall back to the generic client message.
+    const details = await error.context?.json?.().catch(() => null);
+    return { error: details?.error || error.message || 'Failed to start checkout.' };
   }
+  return { checkout_url: data?.checkout_url };
 };
 
 export const uploadFile = async (file: File, bucketName: string = 'project-attachments'): Promise<{ path?: string; publicUrl?: string; error?: Error }> => {
@@ -350,47 +466,220 @@ export const uploadFile = async (file: File, bucketName: string = 'project-attac
 export const updateMilestoneStatus = async (
     milestoneId: string, 
     projectId: string, 
-    newStatus: MilestoneStatus,
-    // For notifications:
-    projectTitle?: string,
-    projectOwnerId?: string,
-    acceptedContributorIds?: string[]
+    newStatus: MilestoneStatus
 ): Promise<PostgrestSingleResponse<Milestone>> => {
-
-  const response = await supabase
+  // Project participants are notified by the notify_milestones_status_update trigger.
+  return supabase
     .from('milestones')
     .update({ status: newStatus })
     .eq('id', milestoneId)
     .eq('project_id', projectId)
     .select()
     .single();
+};
 
-  if (!response.error && response.data && projectTitle) {
-    const milestoneDescription = response.data.description;
-    // Notify project owner
-    if (projectOwnerId) {
-        createDBNotification({
-            user_id: projectOwnerId,
-            type: NotificationTypeEnum.PROJECT_MILESTONE_UPDATE,
-            message: `Milestone "${milestoneDescription}" in project "${projectTitle}" was updated to ${newStatus}.`,
-            link: `/projects/${projectId}`,
-            related_project_id: projectId,
-            related_milestone_id: milestoneId
-        }).catch(err => console.error("Failed to create notification for milestone update (owner):", err));
-    }
-    // Notify accepted contributors
-    acceptedContributorIds?.forEach(contributorId => {
-        createDBNotification({
-            user_id: contributorId,
-            type: NotificationTypeEnum.PROJECT_MILESTONE_UPDATE,
-            message: `Milestone "${milestoneDescription}" in project "${projectTitle}" was updated to ${newStatus}.`,
-            link: `/projects/${projectId}`,
-            related_project_id: projectId,
-            related_milestone_id: milestoneId
-        }).catch(err => console.error("Failed to create notification for milestone update (contributor):", err));
-    });
-  }
-  return response;
+// Accepted contributor hands in a milestone; it moves to SUBMITTED until the lead reviews it.
+export const submitMilestone = async (
+  milestoneId: string,
+  notes: string,
+  attachmentUrls: string[] = []
+): Promise<PostgrestSingleResponse<MilestoneSubmission>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .rpc('submit_milestone', { p_milestone_id: milestoneId, p_notes: notes, p_attachment_urls: attachmentUrls })
+    .single();
+};
+
+// Approving makes the milestone payable; requesting changes sends it back to the contributor (comments required).
+export const reviewMilestoneSubmission = async (
+  submissionId: string,
+  decision: MilestoneSubmissionStatus.APPROVED | MilestoneSubmissionStatus.CHANGES_REQUESTED,
+  comments?: string
+): Promise<PostgrestSingleResponse<MilestoneSubmission>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .rpc('review_milestone_submission', { p_submission_id: submissionId, p_decision: decision, p_comments: comments || null })
+    .single();
+};
+
+// Replaces how a milestone is split between accepted contributors; pass [] to pay it to one contributor again.
+// Project owner only, and only until the milestone is approved.
+export const setMilestoneAllocations = async (
+  milestoneId: string,
+  allocations: MilestoneAllocationInput[]
+): Promise<PostgrestResponse<MilestoneAllocation>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase.rpc('set_milestone_allocations', { p_milestone_id: milestoneId, p_allocations: allocations });
+};
+
+// LEDGER
+// Funding and escrow holds are posted by the database when a milestone payment succeeds. Balances are
+// visible to the project owner and admins only (RLS); other callers get zeros or no rows.
+export const getProjectLedgerBalance = async (projectId: string): Promise<PostgrestSingleResponse<ProjectLedgerBalance>> => {
+  return supabase
+    .from('project_ledger_balances')
+    .select('*')
+    .eq('project_id', projectId)
+    .single();
+};
+
+export const getMilestoneLedgerBalances = async (projectId: string): Promise<PostgrestResponse<MilestoneLedgerBalance>> => {
+  return supabase
+    .from('milestone_ledger_balances')
+    .select('*')
+    .eq('project_id', projectId);
+};
+
+export const getLedgerTransactionsForProject = async (projectId: string): Promise<PostgrestResponse<LedgerTransaction>> => {
+  return supabase
+    .from('ledger_transactions')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+};
+
+export const getMilestoneAllocationBalances = async (projectId: string): Promise<PostgrestResponse<MilestoneAllocationBalance>> => {
+  return supabase
+    .from('milestone_allocation_balances')
+    .select('*')
+    .eq('project_id', projectId);
+};
+
+// Admin only: records a payout to a contributor or a refund to the lead, made outside the app,
+// against the milestone's escrow. The amount cannot exceed what the milestone holds in escrow.
+// Payouts of split milestones name the contributor (recipientUserId) and are capped at their share.
+export const recordMilestoneDisbursement = async (
+  milestoneId: string,
+  kind: LedgerTransactionKind.PAYOUT | LedgerTransactionKind.REFUND,
+  amount: number,
+  externalReference?: string,
+  recipientUserId?: string
+): Promise<PostgrestSingleResponse<LedgerTransaction>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .rpc('record_milestone_disbursement', {
+      p_milestone_id: milestoneId,
+      p_kind: kind,
+      p_amount: amount,
+      p_external_reference: externalReference || null,
+      p_recipient_user_id: recipientUserId || null,
+    })
+    .single();
+};
+
+// RECEIPTS AND INVOICES
+// Only the data comes from the database; the PDFs are rendered in the browser (lib/pdfDocuments.ts).
+export const getMilestoneReceipt = async (milestoneId: string): Promise<PostgrestSingleResponse<MilestoneReceipt>> => {
+  return supabase.rpc('get_milestone_receipt', { p_milestone_id: milestoneId });
+};
+
+export const getProjectInvoice = async (projectId: string): Promise<PostgrestSingleResponse<ProjectInvoice>> => {
+  return supabase.rpc('get_project_invoice', { p_project_id: projectId });
+};
+
+// TIMESHEETS
+// Contributors see their own entries, the project owner sees everyone's (RLS). project_id is filled in
+// from the milestone by the database.
+export const getTimesheetEntriesForProject = async (projectId: string): Promise<PostgrestResponse<TimesheetEntry>> => {
+  return supabase
+    .from('timesheet_entries')
+    .select('*, contributor_user:users!contributor_user_id(id, name, profile_photo_url)')
+    .eq('project_id', projectId)
+    .order('work_date', { ascending: false });
+};
+
+export const logTimesheetEntry = async (entry: TimesheetEntryInput): Promise<PostgrestSingleResponse<TimesheetEntry>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('timesheet_entries')
+    .insert({ ...entry, description: entry.description || null, contributor_user_id: userId })
+    .select()
+    .single();
+};
+
+// Only pending entries can be changed; reviewed ones are locked by RLS.
+export const updateTimesheetEntry = async (
+  entryId: string,
+  updates: Partial<TimesheetEntryInput>
+): Promise<PostgrestSingleResponse<TimesheetEntry>> => {
+  return supabase
+    .from('timesheet_entries')
+    .update(updates)
+    .eq('id', entryId)
+    .select()
+    .single();
+};
+
+export const deleteTimesheetEntry = async (entryId: string): Promise<PostgrestResponse<TimesheetEntry>> => {
+  return supabase
+    .from('timesheet_entries')
+    .delete()
+    .eq('id', entryId)
+    .select();
+};
+
+// Project owner approves or rejects pending entries in one go.
+export const reviewTimesheetEntries = async (
+  entryIds: string[],
+  decision: TimesheetStatus.APPROVED | TimesheetStatus.REJECTED,
+  comments?: string
+): Promise<PostgrestResponse<TimesheetEntry>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase.rpc('review_timesheet_entries', { p_entry_ids: entryIds, p_decision: decision, p_comments: comments || null });
+};
+
+export const getMilestoneTimesheetSummary = async (projectId: string): Promise<PostgrestResponse<MilestoneTimesheetSummary>> => {
+  return supabase
+    .from('milestone_timesheet_summary')
+    .select('*')
+    .eq('project_id', projectId);
+};
+
+// EXCHANGE RATES
+// Readable by every signed-in user; only admins can change them (RLS). Used for reports, never for payments.
+export const getExchangeRates = async (): Promise<PostgrestResponse<ExchangeRate>> => {
+  return supabase
+    .from('exchange_rates')
+    .select('*')
+    .order('effective_date', { ascending: false })
+    .order('base_currency', { ascending: true });
+};
+
+// One rate per currency pair and day; saving the same pair and day again replaces the rate.
+export const saveExchangeRate = async (rate: ExchangeRateInput): Promise<PostgrestSingleResponse<ExchangeRate>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('exchange_rates')
+    .upsert({ ...rate, created_by_user_id: userId }, { onConflict: 'base_currency,quote_currency,effective_date' })
+    .select()
+    .single();
+};
+
+export const deleteExchangeRate = async (rateId: string): Promise<PostgrestResponse<ExchangeRate>> => {
+  return supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('id', rateId)
+    .select();
+};
+
+// Admin only: stipend totals per project currency, converted into reportCurrency at the latest rates.
+export const getStipendReport = async (reportCurrency: string): Promise<PostgrestResponse<StipendReportRow>> => {
+  return supabase.rpc('get_stipend_report', { p_report_currency: reportCurrency });
 };
 
 // --- ADMIN SPECIFIC FUNCTIONS (copied from your version, assumed correct) ---
@@ -447,6 +736,15 @@ export const updateProjectStatusAdmin = async (projectId: string, newStatus: Pro
     .single();
 };
 
+// Admin only: replaced versions of chat messages, newest first, optionally for one project.
+export const getMessageRevisionsAdmin = async (page: number = 1): Promise<PostgrestResponse<MessageRevision>> => {
+  return supabase
+    .from('message_revisions')
+    .select('*, project:projects(id, title), sender_user:users(id, name, email)', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range((page - 1) * PAGINATION_PAGE_SIZE, page * PAGINATION_PAGE_SIZE - 1);
+};
+
 
 // --- IN-APP NOTIFICATIONS (API functions - moved from top for clarity) ---
 
@@ -461,10 +759,53 @@ export const getAppNotificationsForUser = async (page: number = 1, limit: number
     .from('notifications')
     .select('*', { count: 'exact' })
     .eq('user_id', userId)
+    .eq('is_archived', false)
     .order('created_at', { ascending: false })
     .range((page - 1) * limit, page * limit - 1);
 };
 
+export const getGroupedAppNotificationsForUser = async (
+  filters: NotificationFilters = {},
+  page: number = 1,
+  limit: number = PAGINATION_PAGE_SIZE
+): Promise<PostgrestResponse<AppNotificationGroup>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase.rpc('get_notification_groups', {
+    p_type: filters.type ?? null,
+    p_is_read: filters.readState === 'read' ? true : filters.readState === 'unread' ? false : null,
+    p_include_archived: filters.includeArchived ?? false,
+    p_limit: limit,
+    p_offset: (page - 1) * limit,
+  });
+};
+
+// Individual notifications behind one AppNotificationGroup, newest first. Takes the filters the groups were
+// loaded with, so an expanded group lists exactly the notifications it was counted from.
+export const getAppNotificationsInGroup = async (groupKey: string, filters: NotificationFilters = {}): Promise<PostgrestResponse<AppNotification>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('group_key', groupKey)
+    .order('created_at', { ascending: false });
+
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+  if (filters.readState === 'read' || filters.readState === 'unread') {
+    query = query.eq('is_read', filters.readState === 'read');
+  }
+  if (!filters.includeArchived) {
+    query = query.eq('is_archived', false);
+  }
+  return query;
+};
+
 export const getUnreadNotificationsCount = async (): Promise<{ count: number; error: null | any }> => {
     const userId = await getCurrentUserId();
     if (!userId) return { count: 0, error: { message: "User not authenticated" } };
@@ -473,7 +814,8 @@ export const getUnreadNotificationsCount = async (): Promise<{ count: number; er
         .from('notifications')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userId)
-        .eq('is_read', false);
+        .eq('is_read', false)
+        .eq('is_archived', false);
     
     return { count: count || 0, error };
 };
@@ -504,4 +846,104 @@ export const markAllUserNotificationsAsRead = async (): Promise<PostgrestRespons
     .eq('user_id', userId)
     .eq('is_read', false)
     .select();
+};
+
+export const markNotificationsAsRead = async (notificationIds: string[]): Promise<PostgrestResponse<AppNotification>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('user_id', userId)
+    .in('id', notificationIds)
+    .select();
+};
+
+// Archiving also marks as read, so archived items never keep the bell badge lit.
+export const archiveNotifications = async (notificationIds: string[]): Promise<PostgrestResponse<AppNotification>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('notifications')
+    .update({ is_archived: true, is_read: true })
+    .eq('user_id', userId)
+    .in('id', notificationIds)
+    .select();
+};
+
+export const deleteNotifications = async (notificationIds: string[]): Promise<PostgrestResponse<AppNotification>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('notifications')
+    .delete()
+    .eq('user_id', userId)
+    .in('id', notificationIds)
+    .select();
+};
+
+// --- NOTIFICATION PREFERENCES ---
+// Read by public.create_notification when the fan-out triggers run.
+
+export const getNotificationPreferences = async (): Promise<PostgrestResponse<NotificationPreference>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId);
+};
+
+export const saveNotificationPreferences = async (preferences: NotificationPreferenceInput[]): Promise<PostgrestResponse<NotificationPreference>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('notification_preferences')
+    .upsert(preferences.map(p => ({ ...p, user_id: userId })), { onConflict: 'user_id,type' })
+    .select();
+};
+
+// --- WEB PUSH SUBSCRIPTIONS ---
+// Endpoints registered here receive OS-level notifications from the send-push-notification Edge Function.
+
+export const getPushSubscriptions = async (): Promise<PostgrestResponse<PushSubscriptionRecord>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+};
+
+export const savePushSubscription = async (subscription: PushSubscription): Promise<PostgrestSingleResponse<PushSubscriptionRecord>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('push_subscriptions')
+    .upsert(
+      { ...getPushSubscriptionKeys(subscription), user_id: userId, user_agent: navigator.userAgent.substring(0, 512) },
+      { onConflict: 'user_id,endpoint' }
+    )
+    .select()
+    .single();
+};
+
+export const deletePushSubscription = async (endpoint: string): Promise<PostgrestResponse<PushSubscriptionRecord>> => {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error("User not authenticated");
+
+  return supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('endpoint', endpoint)
+    .select();
 };
\ No newline at end of file
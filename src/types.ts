@@ -1,5 +1,6 @@
 import type { User as SupabaseUser } from '@supabase/gotrue-js';
 import { z } from 'zod';
+import { formatCurrency } from './lib/currency.ts';
 
 export enum UserRole {
   RESEARCH_LEAD = 'research_lead',
@@ -17,10 +18,23 @@ export enum ProjectStatus {
 
 export enum MilestoneStatus {
   PENDING = 'pending',
-  COMPLETED = 'completed',
+  SUBMITTED = 'submitted',
+  CHANGES_REQUESTED = 'changes_requested',
+  APPROVED = 'approved', // Only approved milestones can be funded
+  COMPLETED = 'completed', // Legacy: marked done by the owner before submissions existed
   PAID = 'paid',
 }
 
+// Approved, completed and paid milestones are settled with the contributor and can no longer be edited
+// or removed (mirrors public.is_milestone_locked).
+export const LOCKED_MILESTONE_STATUSES: MilestoneStatus[] = [MilestoneStatus.APPROVED, MilestoneStatus.COMPLETED, MilestoneStatus.PAID];
+
+export enum MilestoneSubmissionStatus {
+  PENDING_REVIEW = 'pending_review',
+  APPROVED = 'approved',
+  CHANGES_REQUESTED = 'changes_requested',
+}
+
 export enum ApplicationStatus {
   PENDING = 'pending',
   SHORTLISTED = 'shortlisted',
@@ -36,6 +50,11 @@ export enum CompensationModel {
   OTHER_BENEFIT = 'other_benefit',
 }
 
+export enum DigestFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -46,6 +65,9 @@ export interface UserProfile {
   skills?: string[];
   profile_photo_url?: string;
   is_anonymous?: boolean;
+  email_digest_frequency?: DigestFrequency;
+  last_digest_sent_at?: string;
+  reputation?: UserReputation | null; // Embedded from user_reputation where a listing needs it
   created_at?: string;
   updated_at?: string;
 }
@@ -55,14 +77,222 @@ export interface Milestone {
   project_id: string;
   description: string;
   amount: number;
+  currency: string; // Always the project's currency
   due_date?: string;
   status: MilestoneStatus;
   stripe_transaction_id?: string;
   created_at?: string;
   updated_at?: string;
+  submissions?: MilestoneSubmission[]; // Joined in getProjectById
+  allocations?: MilestoneAllocation[]; // Joined in getProjectById; contributors only get their own share (RLS)
+}
+
+// A contributor's share of a milestone amount. Milestones without allocations are paid in full to the
+// contributor whose submission was approved.
+export interface MilestoneAllocation {
+  id: string;
+  milestone_id: string;
+  project_id: string;
+  contributor_user_id: string;
+  contributor_user?: Pick<UserProfile, 'id' | 'name'>;
+  amount: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MilestoneAllocationInput = Pick<MilestoneAllocation, 'contributor_user_id' | 'amount'>;
+
+export interface MilestoneSubmission {
+  id: string;
+  milestone_id: string;
+  project_id: string;
+  submitted_by_user_id: string;
+  submitted_by_user?: Pick<UserProfile, 'id' | 'name'>;
+  notes: string;
+  attachment_urls: string[];
+  status: MilestoneSubmissionStatus;
+  review_comments?: string | null;
+  reviewed_by_user_id?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+// Stipend ledger (see "STIPEND LEDGER" in supabase_schema.sql)
+export enum LedgerTransactionKind {
+  FUNDING = 'funding',
+  ESCROW_HOLD = 'escrow_hold',
+  PAYOUT = 'payout',
+  REFUND = 'refund',
+}
+
+export interface LedgerTransaction {
+  id: string;
+  kind: LedgerTransactionKind;
+  project_id: string;
+  milestone_id?: string | null;
+  payment_id?: string | null;
+  amount: number;
+  currency: string;
+  description: string;
+  external_reference?: string | null;
+  created_by_user_id?: string | null;
+  recipient_user_id?: string | null; // Contributor a payout was sent to
+  created_at: string;
+}
+
+// One row of the milestone_ledger_balances view. funded - paid_out - refunded = in_escrow.
+export interface MilestoneLedgerBalance {
+  milestone_id: string;
+  project_id: string;
+  description: string;
+  budgeted_amount: number;
+  currency: string;
+  status: MilestoneStatus;
+  funded: number;
+  paid_out: number;
+  refunded: number;
+  in_escrow: number;
+}
+
+// One row of the project_ledger_balances view. unallocated_budget < 0 means the milestones exceed the stipend.
+export interface ProjectLedgerBalance {
+  project_id: string;
+  title: string;
+  stipend_amount?: number | null;
+  currency: string;
+  milestones_total: number;
+  unallocated_budget: number;
+  funded: number;
+  paid_out: number;
+  refunded: number;
+  in_escrow: number;
+}
+
+// One row of the milestone_allocation_balances view: a contributor's share and what has been paid of it.
+export interface MilestoneAllocationBalance {
+  allocation_id: string;
+  milestone_id: string;
+  project_id: string;
+  contributor_user_id: string;
+  contributor_name: string;
+  amount: number;
+  currency: string;
+  paid_out: number;
+  outstanding: number;
+}
+
+// Admin-maintained: 1 base_currency = rate quote_currency from effective_date on. Used for reports only.
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+  created_by_user_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'base_currency' | 'quote_currency' | 'rate' | 'effective_date'>;
+
+// One row of get_stipend_report: totals in one project currency and, where a rate exists, converted.
+export interface StipendReportRow {
+  currency: string;
+  project_count: number;
+  budget_total: number;
+  funded_total: number;
+  in_escrow_total: number;
+  paid_out_total: number;
+  refunded_total: number;
+  rate: number | null;
+  budget_converted: number | null;
+  funded_converted: number | null;
+  in_escrow_converted: number | null;
+  paid_out_converted: number | null;
+  refunded_converted: number | null;
+}
+
+// Receipts and invoices (get_milestone_receipt / get_project_invoice), rendered to PDF by lib/pdfDocuments.ts.
+export type DocumentParty = Pick<UserProfile, 'id' | 'name' | 'email' | 'institution'>;
+
+export interface MilestoneReceipt {
+  receipt_number: string;
+  milestone_id: string;
+  milestone_description: string;
+  amount: number;
+  currency: string;
+  paid_at: string;
+  transaction_reference?: string | null;
+  payment_provider?: string | null;
+  project: Pick<Project, 'id' | 'title'>;
+  payer: DocumentParty | null;
+  payee: DocumentParty | null; // The caller for their own share, else the approved submitter; null when split
+  is_share: boolean; // amount is the caller's share of a split milestone
+}
+
+export interface ProjectInvoiceLine {
+  milestone_id: string;
+  description: string;
+  amount: number;
+  status: MilestoneStatus;
+  due_date?: string | null;
+  paid_at?: string | null;
+  transaction_reference?: string | null;
+  payee_name?: string | null;
+}
+
+export interface ProjectInvoice {
+  invoice_number: string;
+  issued_at: string;
+  currency: string;
+  project: Pick<Project, 'id' | 'title' | 'stipend_amount' | 'start_date' | 'end_date'>;
+  lead: DocumentParty | null;
+  lines: ProjectInvoiceLine[];
+  total: number;
+  paid_total: number;
+}
+
+export enum TimesheetStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export interface TimesheetEntry {
+  id: string;
+  project_id: string;
+  milestone_id: string;
+  contributor_user_id: string;
+  contributor_user?: Pick<UserProfile, 'id' | 'name' | 'profile_photo_url'>;
+  work_date: string; // YYYY-MM-DD
+  hours: number;
+  description?: string | null;
+  status: TimesheetStatus;
+  review_comments?: string | null;
+  reviewed_by_user_id?: string | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type TimesheetEntryInput = Pick<TimesheetEntry, 'milestone_id' | 'work_date' | 'hours' | 'description'>;
+
+// One row of the milestone_timesheet_summary view: a contributor's hours on one milestone.
+export interface MilestoneTimesheetSummary {
+  milestone_id: string;
+  project_id: string;
+  contributor_user_id: string;
+  approved_hours: number | null;
+  pending_hours: number | null;
+  proposed_rate: number | null;
+  suggested_amount: number | null; // approved_hours x proposed_rate
+  milestone_amount: number;
+  currency: string;
 }
 
 export const MilestoneSchema = z.object({
+  id: z.string().optional(), // Set for milestones that already exist; updateProject syncs by id
+  status: z.nativeEnum(MilestoneStatus).optional(), // Read-only, lets the editor lock settled milestones
   description: z.string().min(1, "Description is required"),
   amount: z.number().min(0, "Amount must be non-negative"),
   due_date: z.string().optional(),
@@ -70,6 +300,30 @@ export const MilestoneSchema = z.object({
 
 export type MilestoneInput = z.infer<typeof MilestoneSchema>;
 
+export interface MilestoneBudgetSummary {
+  budget: number; // stipend_amount, 0 when not set
+  allocated: number; // Sum of the milestone amounts
+  remaining: number; // Negative when the milestones are over-allocated
+  isOverAllocated: boolean;
+}
+
+// Shared by ProjectSchema and the live summary in ProjectForm. Works in cents so that float sums such as
+// 0.1 + 0.2 never report a budget as over-allocated. Blank number inputs arrive as NaN and count as 0.
+export const getMilestoneBudgetSummary = (
+  stipendAmount: number | null | undefined,
+  milestones: { amount?: number | null }[] = []
+): MilestoneBudgetSummary => {
+  const toCents = (value: number | null | undefined) => (Number.isFinite(value) ? Math.round((value as number) * 100) : 0);
+  const budgetCents = toCents(stipendAmount);
+  const allocatedCents = milestones.reduce((sum, m) => sum + toCents(m.amount), 0);
+  return {
+    budget: budgetCents / 100,
+    allocated: allocatedCents / 100,
+    remaining: (budgetCents - allocatedCents) / 100,
+    isOverAllocated: allocatedCents > budgetCents,
+  };
+};
+
 export interface Project {
   id: string;
   posted_by_user_id: string;
@@ -81,6 +335,7 @@ export interface Project {
   deliverables?: string[];
   compensation_model: CompensationModel;
   stipend_amount?: number;
+  currency: string; // ISO 4217 code for the stipend, milestones and proposed rates
   confidentiality_agreement_required: boolean;
   application_deadline?: string;
   start_date?: string;
@@ -108,11 +363,42 @@ export const ProjectSchema = z.object({
   ),
   compensation_model: z.nativeEnum(CompensationModel),
   stipend_amount: z.number().min(0).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Choose a currency"),
   confidentiality_agreement_required: z.boolean().default(false),
   application_deadline: z.string().optional(),
   start_date: z.string().optional(),
   end_date: z.string().optional(),
   milestones: z.array(MilestoneSchema).optional().default([]),
+}).superRefine((project, ctx) => {
+  // Mirrors public.check_project_budget, which enforces the same rules when the project is saved.
+  const milestones = project.milestones || [];
+  if (project.compensation_model !== CompensationModel.STIPEND) {
+    milestones.forEach((milestone, index) => {
+      if (milestone.amount > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['milestones', index, 'amount'],
+          message: 'Only stipend projects can have paid milestones',
+        });
+      }
+    });
+    return;
+  }
+
+  const summary = getMilestoneBudgetSummary(project.stipend_amount, milestones);
+  if (summary.allocated > 0 && summary.budget <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['stipend_amount'],
+      message: 'Set the stipend amount the milestones are paid from',
+    });
+  } else if (summary.isOverAllocated) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['stipend_amount'],
+      message: `Milestones add up to ${formatCurrency(summary.allocated, project.currency)}, ${formatCurrency(-summary.remaining, project.currency)} more than the stipend`,
+    });
+  }
 });
 
 export type ProjectInput = z.infer<typeof ProjectSchema>;
@@ -120,7 +406,7 @@ export type ProjectInput = z.infer<typeof ProjectSchema>;
 export interface Application {
   id: string;
   project_id: string;
-  project?: Pick<Project, 'id' | 'title'>;
+  project?: Pick<Project, 'id' | 'title' | 'currency'>;
   contributor_user_id: string;
   contributor_user?: UserProfile;
   proposal_text: string;
@@ -151,19 +437,202 @@ export interface Message {
   sender_user?: Pick<UserProfile, 'id' | 'name' | 'profile_photo_url'>;
   message_text: string;
   attachment_url?: string;
+  parent_message_id?: string | null; // Set on thread replies
+  reply_count: number; // Replies to a top-level message
+  last_reply_at?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null; // Deleted messages keep their row, with the text and attachment cleared
   created_at: string;
 }
 
+export enum MessageRevisionAction {
+  EDITED = 'edited',
+  DELETED = 'deleted',
+}
+
+// A version of a chat message that an edit or delete replaced. Visible to admins only.
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  project_id: string;
+  sender_user_id: string;
+  action: MessageRevisionAction;
+  message_text: string;
+  attachment_url?: string | null;
+  message_created_at: string;
+  created_at: string;
+  project?: Pick<Project, 'id' | 'title'>;
+  sender_user?: Pick<UserProfile, 'id' | 'name' | 'email'>;
+}
+
+// A participant's read position in a project's chat; later messages from others are unread.
+export interface MessageRead {
+  project_id: string;
+  user_id: string;
+  last_read_message_id?: string | null;
+  last_read_at: string;
+  updated_at: string;
+}
+
+// Presence payload tracked on the project chat channel, once per open tab.
+export interface ChatPresence {
+  user_id: string;
+  name: string;
+  profile_photo_url?: string;
+  online_at: string;
+}
+
+// Broadcast on the project chat channel while a participant is typing.
+export interface TypingSignal {
+  user_id: string;
+  name: string;
+  is_typing: boolean;
+}
+
+// Keyset position in a project's chat. Messages are ordered by (created_at, id) so equal timestamps still page reliably.
+export type MessageCursor = Pick<Message, 'created_at' | 'id'>;
+
 export interface Rating {
   id: string;
   project_id: string;
+  project?: Pick<Project, 'id' | 'title'>;
   rated_by_user_id: string;
+  rated_by_user?: Pick<UserProfile, 'id' | 'name' | 'profile_photo_url'>;
   rated_user_id: string;
   communication_rating?: number;
   quality_rating?: number;
   timeliness_rating?: number;
   comments?: string;
   created_at?: string;
+  updated_at?: string;
+}
+
+// Mean of the scores a rating has; older rows may leave some of them empty.
+export const getRatingAverage = (rating: Pick<Rating, 'communication_rating' | 'quality_rating' | 'timeliness_rating'>): number | null => {
+  const scores = [rating.communication_rating, rating.quality_rating, rating.timeliness_rating].filter((s): s is number => s != null);
+  return scores.length ? scores.reduce((sum, s) => sum + s, 0) / scores.length : null;
+};
+
+const ratingScore = (label: string) => z.number({ invalid_type_error: `Rate ${label}` }).int().min(1, `Rate ${label}`).max(5);
+
+export const RatingSchema = z.object({
+  communication_rating: ratingScore('communication'),
+  quality_rating: ratingScore('quality'),
+  timeliness_rating: ratingScore('timeliness'),
+  comments: z.string().max(2000, "Comments must be 2000 characters or less").optional(),
+});
+
+export type RatingInput = z.infer<typeof RatingSchema>;
+
+// One row of the user_rating_summaries view. Averages are on the 1-5 scale.
+export interface UserRatingSummary {
+  user_id: string;
+  rating_count: number;
+  communication_avg: number | null;
+  quality_avg: number | null;
+  timeliness_avg: number | null;
+  overall_avg: number | null;
+}
+
+// One row of user_reputation, refreshed by the database whenever ratings, applications, projects or
+// milestone submissions change. score is 0-100 and null until the user has any track record.
+export interface UserReputation {
+  user_id: string;
+  rating_count: number;
+  rating_avg: number | null;
+  completed_projects: number;
+  milestones_delivered: number;
+  milestones_on_time: number;
+  withdrawn_or_cancelled: number;
+  score: number | null;
+  refreshed_at: string;
+}
+
+export enum CredentialKind {
+  CERTIFICATE = 'certificate',
+  RECOMMENDATION_LETTER = 'recommendation_letter',
+}
+
+export enum CredentialStatus {
+  DRAFT = 'draft',
+  SIGNED = 'signed',
+  REVOKED = 'revoked',
+}
+
+// Certificate or recommendation letter a lead issues on a completed project. Contributors only see it once signed.
+export interface Credential {
+  id: string;
+  project_id: string;
+  project?: Pick<Project, 'id' | 'title'>;
+  contributor_user_id: string;
+  contributor_user?: Pick<UserProfile, 'id' | 'name' | 'institution'>;
+  issued_by_user_id: string;
+  issued_by_user?: Pick<UserProfile, 'id' | 'name' | 'institution' | 'email'>;
+  kind: CredentialKind;
+  title: string;
+  body: string;
+  status: CredentialStatus;
+  signed_name?: string | null;
+  signed_at?: string | null;
+  verification_code?: string | null;
+  revoked_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const CredentialSchema = z.object({
+  kind: z.nativeEnum(CredentialKind),
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be 200 characters or less"),
+  body: z.string().trim().min(1, "The text cannot be empty").max(10000, "The text must be 10000 characters or less"),
+});
+
+export type CredentialInput = z.infer<typeof CredentialSchema>;
+
+// Result of verify_credential, shown on the public /verify/:code page.
+export interface CredentialVerification {
+  verification_code: string;
+  kind: CredentialKind;
+  status: CredentialStatus.SIGNED | CredentialStatus.REVOKED;
+  title: string;
+  body: string;
+  signed_name: string;
+  signed_at: string;
+  revoked_at?: string | null;
+  project: Pick<Project, 'id' | 'title'>;
+  contributor: Pick<UserProfile, 'name' | 'institution'>;
+  issuer: Pick<UserProfile, 'name' | 'institution'>;
+}
+
+// CRediT contributor roles (https://credit.niso.org), recorded on co-authorship projects.
+export enum CreditRole {
+  CONCEPTUALIZATION = 'conceptualization',
+  DATA_CURATION = 'data_curation',
+  FORMAL_ANALYSIS = 'formal_analysis',
+  FUNDING_ACQUISITION = 'funding_acquisition',
+  INVESTIGATION = 'investigation',
+  METHODOLOGY = 'methodology',
+  PROJECT_ADMINISTRATION = 'project_administration',
+  RESOURCES = 'resources',
+  SOFTWARE = 'software',
+  SUPERVISION = 'supervision',
+  VALIDATION = 'validation',
+  VISUALIZATION = 'visualization',
+  WRITING_ORIGINAL_DRAFT = 'writing_original_draft',
+  WRITING_REVIEW_EDITING = 'writing_review_editing',
+}
+
+// A role counts (is_confirmed) once both the lead and the contributor have confirmed it.
+export interface ContributionCredit {
+  id: string;
+  project_id: string;
+  project?: Pick<Project, 'id' | 'title'>;
+  contributor_user_id: string;
+  role: CreditRole;
+  proposed_by_user_id?: string | null;
+  lead_confirmed_at?: string | null;
+  contributor_confirmed_at?: string | null;
+  is_confirmed: boolean;
+  created_at?: string;
 }
 
 export interface ApiErrorResponse {
@@ -189,9 +658,10 @@ export enum NotificationTypeEnum {
   NEW_APPLICATION = 'new_application',
   APPLICATION_STATUS_UPDATE = 'application_status_update',
   PROJECT_MILESTONE_UPDATE = 'project_milestone_update',
-  NEW_MESSAGE_IN_PROJECT = 'new_message_in_project',
+  NEW_MESSAGE_IN_PROJECT = 'new_message_in_project', // No longer sent; older rows are still shown
   PROJECT_FUNDED = 'project_funded',
   GENERIC_SYSTEM_UPDATE = 'generic_system_update',
+  CHAT_THREAD_REPLY = 'chat_thread_reply',
 }
 
 export interface AppNotification {
@@ -201,12 +671,61 @@ export interface AppNotification {
   message: string;
   link?: string;
   is_read: boolean;
+  is_archived?: boolean;
+  group_key: string; // `${type}:${related_project_id | 'none'}` - repeated events share it
+  deliver_in_app?: boolean;
+  deliver_by_email?: boolean;
   related_project_id?: string;
   related_application_id?: string;
   related_milestone_id?: string;
   created_at: string;
 }
 
+// One row of get_notification_groups: all notifications sharing a group_key.
+export interface AppNotificationGroup {
+  group_key: string;
+  type: NotificationTypeEnum;
+  related_project_id?: string;
+  project_title?: string;
+  total_count: number;
+  unread_count: number;
+  latest_message: string;
+  latest_link?: string;
+  latest_created_at: string;
+  notification_ids: string[];
+}
+
+export type NotificationReadFilter = 'all' | 'unread' | 'read';
+
+export interface NotificationFilters {
+  type?: NotificationTypeEnum;
+  readState?: NotificationReadFilter;
+  includeArchived?: boolean;
+}
+
+// A missing preference row for a type means: in-app on, email digest off.
+export interface NotificationPreference {
+  user_id: string;
+  type: NotificationTypeEnum;
+  in_app: boolean;
+  email_digest: boolean;
+  updated_at?: string;
+}
+
+export type NotificationPreferenceInput = Pick<NotificationPreference, 'type' | 'in_app' | 'email_digest'>;
+
+// A Web Push endpoint registered by one of the user's browsers/devices.
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string;
+  created_at?: string;
+  last_used_at?: string;
+}
+
 // Toast Notifications
 export enum NotificationType {
   SUCCESS = 'success',
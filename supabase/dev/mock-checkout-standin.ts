@@ -0,0 +1,73 @@
+// supabase/dev/mock-checkout-standin.ts
+// Checkout page for PAYMENT_PROVIDER=mock, so milestone funding can be tried end to end without Stripe.
+//
+//   MOCK_PAYMENT_WEBHOOK_SECRET=<same as the functions> deno run --allow-net --allow-env supabase/dev/mock-checkout-standin.ts [port]
+//
+// create-checkout-session sends the browser here (MOCK_CHECKOUT_URL, default http://localhost:8788).
+// Choosing an outcome posts a signed event to PAYMENT_WEBHOOK_URL and redirects back to the app.
+import { MOCK_SIGNATURE_HEADER, MockPaymentEventBody, MockPaymentEventType, signMockPaymentEvent } from '../functions/_shared/payments/mockProvider.ts';
+
+const port = Number(Deno.args[0] || 8788);
+const webhookSecret = Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET');
+const webhookUrl = Deno.env.get('PAYMENT_WEBHOOK_URL') || 'http://localhost:54321/functions/v1/payment-webhook';
+if (!webhookSecret) throw new Error('Set MOCK_PAYMENT_WEBHOOK_SECRET to the value used by the Edge Functions.');
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+const renderCheckoutPage = (sessionId: string, params: URLSearchParams): string => {
+  const hidden = [...params.entries()]
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('');
+  const button = (outcome: MockPaymentEventType, label: string) =>
+    `<button name="outcome" value="${outcome}" style="margin-right:8px;padding:8px 16px">${label}</button>`;
+  return `<!doctype html><html><body style="font-family:sans-serif;max-width:480px;margin:48px auto">
+    <h1>Mock checkout</h1>
+    <p>${escapeHtml(params.get('description') || '')}</p>
+    <p><strong>${escapeHtml(params.get('amount') || '0')} ${escapeHtml((params.get('currency') || '').toUpperCase())}</strong></p>
+    <form method="post" action="/checkout/${escapeHtml(sessionId)}">
+      ${hidden}
+      ${button('payment.succeeded', 'Pay')}${button('payment.failed', 'Decline card')}${button('session.expired', 'Let session expire')}
+    </form>
+    <p style="color:#666;font-size:12px">Session ${escapeHtml(sessionId)}</p>
+  </body></html>`;
+};
+
+Deno.serve({ port }, async (req: Request) => {
+  const url = new URL(req.url);
+  const match = url.pathname.match(/^\/checkout\/([\w-]+)$/);
+  if (!match) return new Response('Not found', { status: 404 });
+  const sessionId = match[1];
+
+  if (req.method === 'GET') {
+    return new Response(renderCheckoutPage(sessionId, url.searchParams), { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  }
+  if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+  const form = await req.formData();
+  const outcome = String(form.get('outcome')) as MockPaymentEventType;
+  const event: MockPaymentEventBody = {
+    id: `mock_evt_${crypto.randomUUID()}`,
+    type: outcome,
+    data: {
+      payment_id: String(form.get('payment_id')),
+      session_id: sessionId,
+      transaction_id: outcome === 'payment.succeeded' ? `mock_txn_${crypto.randomUUID()}` : undefined,
+      amount: Number(form.get('amount')),
+      currency: String(form.get('currency')),
+    },
+  };
+  const body = JSON.stringify(event);
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [MOCK_SIGNATURE_HEADER]: await signMockPaymentEvent(webhookSecret, body) },
+    body,
+  });
+  console.log(`[${new Date().toISOString()}] ${outcome} for ${sessionId} -> webhook ${response.status}`, await response.text());
+
+  const redirectTo = String(form.get(outcome === 'payment.succeeded' ? 'success_url' : 'cancel_url'));
+  return Response.redirect(redirectTo, 303);
+});
+
+console.log(`Mock checkout stand-in listening on http://localhost:${port}/checkout/<session-id>, posting to ${webhookUrl}`);
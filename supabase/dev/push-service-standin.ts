@@ -0,0 +1,31 @@
+// supabase/dev/push-service-standin.ts
+// A minimal local push service for testing send-push-notification without a browser vendor.
+//
+//   deno run --allow-net supabase/dev/push-service-standin.ts [port]
+//
+// Insert a push_subscriptions row whose endpoint is http://host.docker.internal:<port>/push/<any-id>
+// (any p256dh/auth pair generated by a real browser or web-push works). Every delivery is logged here.
+// Endpoints ending in /gone answer 410 so the cleanup of expired subscriptions can be exercised too.
+const port = Number(Deno.args[0] || 8787);
+
+Deno.serve({ port }, async (req: Request) => {
+  const url = new URL(req.url);
+  if (req.method !== 'POST' || !url.pathname.startsWith('/push/')) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const body = new Uint8Array(await req.arrayBuffer());
+  console.log(`[${new Date().toISOString()}] push to ${url.pathname}`, {
+    ttl: req.headers.get('TTL'),
+    encoding: req.headers.get('Content-Encoding'),
+    authorization: req.headers.get('Authorization')?.slice(0, 40) + '...',
+    encryptedBytes: body.byteLength,
+  });
+
+  if (url.pathname.endsWith('/gone')) {
+    return new Response('Subscription expired', { status: 410 });
+  }
+  return new Response(null, { status: 201 });
+});
+
+console.log(`Push service stand-in listening on http://localhost:${port}/push/<id>`);
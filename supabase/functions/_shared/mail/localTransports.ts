@@ -0,0 +1,34 @@
+// supabase/functions/_shared/mail/localTransports.ts
+// Stand-ins for local development and testing: nothing leaves the machine.
+import type { MailMessage, MailTransport } from './transport.ts';
+
+const formatAsEml = (from: string, message: MailMessage): string => [
+  `From: ${from}`,
+  `To: ${message.to}`,
+  `Subject: ${message.subject}`,
+  `Date: ${new Date().toUTCString()}`,
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  message.text,
+].join('\r\n');
+
+// Prints every message to the function logs.
+export const createConsoleTransport = (from: string): MailTransport => ({
+  name: 'console',
+  send: async (message: MailMessage) => {
+    console.log(`--- mail (console transport) ---\n${formatAsEml(from, message)}\n--- end mail ---`);
+  },
+});
+
+// Writes every message to <outboxDir>/<timestamp>-<recipient>.eml (plus .html when present).
+export const createFileTransport = (outboxDir: string, from: string): MailTransport => ({
+  name: 'file',
+  send: async (message: MailMessage) => {
+    await Deno.mkdir(outboxDir, { recursive: true });
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}`;
+    await Deno.writeTextFile(`${outboxDir}/${baseName}.eml`, formatAsEml(from, message));
+    if (message.html) {
+      await Deno.writeTextFile(`${outboxDir}/${baseName}.html`, message.html);
+    }
+  },
+});
@@ -0,0 +1,34 @@
+// supabase/functions/_shared/mail/smtpTransport.ts
+import nodemailer from 'npm:nodemailer@6';
+import type { MailMessage, MailTransport } from './transport.ts';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // true for implicit TLS (usually port 465), false for STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message: MailMessage) => {
+      await transporter.sendMail({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    },
+  };
+};
@@ -0,0 +1,44 @@
+// supabase/functions/_shared/mail/transport.ts
+import { createSmtpTransport } from './smtpTransport.ts';
+import { createConsoleTransport, createFileTransport } from './localTransports.ts';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a MailMessage. Jobs only depend on this interface,
+// so the SMTP transport can be swapped for a local stand-in without code changes.
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export const getMailFromAddress = (): string => Deno.env.get('MAIL_FROM') || 'ResearchCollab <no-reply@researchcollab.local>';
+
+// MAIL_TRANSPORT=smtp | file | console (default: console)
+export const createMailTransportFromEnv = (): MailTransport => {
+  const transportName = (Deno.env.get('MAIL_TRANSPORT') || 'console').toLowerCase();
+  switch (transportName) {
+    case 'smtp': {
+      const host = Deno.env.get('SMTP_HOST');
+      if (!host) throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST.');
+      return createSmtpTransport({
+        host,
+        port: Number(Deno.env.get('SMTP_PORT') || 587),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        user: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+        from: getMailFromAddress(),
+      });
+    }
+    case 'file':
+      return createFileTransport(Deno.env.get('MAIL_OUTBOX_DIR') || './.mail-outbox', getMailFromAddress());
+    case 'console':
+      return createConsoleTransport(getMailFromAddress());
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transportName}". Use smtp, file or console.`);
+  }
+};
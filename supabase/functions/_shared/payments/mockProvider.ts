@@ -0,0 +1,91 @@
+// supabase/functions/_shared/payments/mockProvider.ts
+// Local stand-in for a real processor. Checkout happens on the page served by
+// supabase/dev/mock-checkout-standin.ts, which posts events signed with the shared secret below.
+import {
+  CheckoutSession,
+  CheckoutSessionInput,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookVerificationError,
+} from './provider.ts';
+
+export interface MockProviderConfig {
+  webhookSecret: string; // MOCK_PAYMENT_WEBHOOK_SECRET, shared with the checkout stand-in
+  checkoutBaseUrl: string; // Where the stand-in is listening
+}
+
+export type MockPaymentEventType = 'payment.succeeded' | 'payment.failed' | 'session.expired';
+
+export interface MockPaymentEventBody {
+  id: string;
+  type: MockPaymentEventType;
+  data: {
+    payment_id: string;
+    session_id: string;
+    transaction_id?: string;
+    amount: number;
+    currency: string;
+  };
+}
+
+export const MOCK_SIGNATURE_HEADER = 'X-Mock-Signature';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const hmacSha256Hex = async (secret: string, payload: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Same scheme as Stripe: "t=<unix seconds>,v1=<hex HMAC of `${t}.${body}`>".
+export const signMockPaymentEvent = async (secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): Promise<string> =>
+  `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+
+const OUTCOMES: Record<MockPaymentEventType, PaymentEvent['outcome']> = {
+  'payment.succeeded': 'succeeded',
+  'payment.failed': 'failed',
+  'session.expired': 'expired',
+};
+
+export const createMockProvider = (config: MockProviderConfig): PaymentProvider => ({
+  name: 'mock',
+  createCheckoutSession: async (input: CheckoutSessionInput): Promise<CheckoutSession> => {
+    const sessionId = `mock_cs_${crypto.randomUUID()}`;
+    const params = new URLSearchParams({
+      payment_id: input.paymentId,
+      amount: input.amount.toFixed(2),
+      currency: input.currency,
+      description: input.description,
+      success_url: input.successUrl,
+      cancel_url: input.cancelUrl,
+    });
+    return { sessionId, checkoutUrl: `${config.checkoutBaseUrl}/checkout/${sessionId}?${params}` };
+  },
+  parseWebhook: async (req: Request): Promise<PaymentEvent | null> => {
+    const header = req.headers.get(MOCK_SIGNATURE_HEADER);
+    if (!header) throw new WebhookVerificationError(`Missing ${MOCK_SIGNATURE_HEADER} header.`);
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = Number(parts.t);
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new WebhookVerificationError('Signature timestamp outside the tolerance window.');
+    }
+
+    const body = await req.text();
+    if (parts.v1 !== await hmacSha256Hex(config.webhookSecret, `${timestamp}.${body}`)) {
+      throw new WebhookVerificationError('Invalid signature.');
+    }
+
+    const event = JSON.parse(body) as MockPaymentEventBody;
+    const outcome = OUTCOMES[event.type];
+    if (!outcome) return null;
+    return {
+      eventId: event.id,
+      outcome,
+      paymentId: event.data.payment_id,
+      sessionId: event.data.session_id,
+      transactionId: event.data.transaction_id,
+      amount: event.data.amount,
+      currency: event.data.currency,
+    };
+  },
+});
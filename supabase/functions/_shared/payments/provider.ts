@@ -0,0 +1,75 @@
+// supabase/functions/_shared/payments/provider.ts
+import { createStripeProvider } from './stripeProvider.ts';
+import { createMockProvider } from './mockProvider.ts';
+
+export interface CheckoutSessionInput {
+  paymentId: string; // milestone_payments.id, echoed back in every webhook event for this session
+  milestoneId: string;
+  projectId: string;
+  description: string; // Shown to the payer on the checkout page
+  amount: number; // Major units, e.g. 12.50
+  currency: string; // ISO 4217, lower case
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  checkoutUrl: string;
+}
+
+// Provider webhooks normalised to the few outcomes the app cares about.
+export interface PaymentEvent {
+  eventId: string;
+  outcome: 'succeeded' | 'failed' | 'expired';
+  paymentId: string;
+  sessionId: string;
+  transactionId?: string;
+  amount: number; // Major units
+  currency: string;
+}
+
+// Thrown when a webhook request cannot be authenticated (bad or missing signature); answered with 400.
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+// The checkout and webhook functions only depend on this interface, so Stripe can be swapped
+// for the mock provider (or another processor) without code changes.
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession: (input: CheckoutSessionInput) => Promise<CheckoutSession>;
+  // Verifies the signature and returns null for event types that need no action.
+  parseWebhook: (req: Request) => Promise<PaymentEvent | null>;
+}
+
+// PAYMENT_PROVIDER=stripe | mock (default: mock)
+export const createPaymentProviderFromEnv = (): PaymentProvider => {
+  const providerName = (Deno.env.get('PAYMENT_PROVIDER') || 'mock').toLowerCase();
+  switch (providerName) {
+    case 'stripe': {
+      const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+      const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+      if (!secretKey || !webhookSecret) throw new Error('PAYMENT_PROVIDER=stripe requires STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET.');
+      return createStripeProvider({ secretKey, webhookSecret });
+    }
+    case 'mock': {
+      const webhookSecret = Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET');
+      if (!webhookSecret) throw new Error('PAYMENT_PROVIDER=mock requires MOCK_PAYMENT_WEBHOOK_SECRET.');
+      return createMockProvider({
+        webhookSecret,
+        checkoutBaseUrl: Deno.env.get('MOCK_CHECKOUT_URL') || 'http://localhost:8788',
+      });
+    }
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${providerName}". Use stripe or mock.`);
+  }
+};
+
+// Provider APIs count in minor units (cents). Every currency used so far has two decimals.
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+export const fromMinorUnits = (amount: number): number => amount / 100;
@@ -0,0 +1,93 @@
+// supabase/functions/_shared/payments/stripeProvider.ts
+import Stripe from 'npm:stripe@14';
+import {
+  CheckoutSession,
+  CheckoutSessionInput,
+  PaymentEvent,
+  PaymentProvider,
+  WebhookVerificationError,
+  fromMinorUnits,
+  toMinorUnits,
+} from './provider.ts';
+
+export interface StripeConfig {
+  secretKey: string;
+  webhookSecret: string; // whsec_... of the webhook endpoint pointing at payment-webhook
+}
+
+// Stripe Checkout in one-off payment mode. The milestone_payments id travels as client_reference_id
+// so the webhook can find the payment without trusting anything else in the event.
+export const createStripeProvider = (config: StripeConfig): PaymentProvider => {
+  const stripe = new Stripe(config.secretKey, {
+    apiVersion: '2023-10-16',
+    httpClient: Stripe.createFetchHttpClient(),
+  });
+  const cryptoProvider = Stripe.createSubtleCryptoProvider();
+
+  const toPaymentEvent = (
+    event: Stripe.Event,
+    session: Stripe.Checkout.Session,
+    outcome: PaymentEvent['outcome']
+  ): PaymentEvent | null => {
+    if (!session.client_reference_id) return null; // Not a session opened by create-checkout-session
+    return {
+      eventId: event.id,
+      outcome,
+      paymentId: session.client_reference_id,
+      sessionId: session.id,
+      transactionId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id,
+      amount: fromMinorUnits(session.amount_total ?? 0),
+      currency: session.currency ?? '',
+    };
+  };
+
+  return {
+    name: 'stripe',
+    createCheckoutSession: async (input: CheckoutSessionInput): Promise<CheckoutSession> => {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'payment',
+        client_reference_id: input.paymentId,
+        customer_email: input.customerEmail,
+        line_items: [{
+          quantity: 1,
+          price_data: {
+            currency: input.currency,
+            unit_amount: toMinorUnits(input.amount),
+            product_data: { name: input.description },
+          },
+        }],
+        metadata: { milestone_id: input.milestoneId, project_id: input.projectId },
+        success_url: input.successUrl,
+        cancel_url: input.cancelUrl,
+      });
+      if (!session.url) throw new Error('Stripe did not return a checkout URL.');
+      return { sessionId: session.id, checkoutUrl: session.url };
+    },
+    parseWebhook: async (req: Request): Promise<PaymentEvent | null> => {
+      const signature = req.headers.get('Stripe-Signature');
+      if (!signature) throw new WebhookVerificationError('Missing Stripe-Signature header.');
+
+      let event: Stripe.Event;
+      try {
+        event = await stripe.webhooks.constructEventAsync(await req.text(), signature, config.webhookSecret, undefined, cryptoProvider);
+      } catch (err: any) {
+        throw new WebhookVerificationError(err?.message || 'Invalid Stripe signature.');
+      }
+
+      const session = event.data.object as Stripe.Checkout.Session;
+      switch (event.type) {
+        case 'checkout.session.completed':
+          // Delayed payment methods complete the session before the money arrives; wait for async_payment_succeeded.
+          return session.payment_status === 'paid' ? toPaymentEvent(event, session, 'succeeded') : null;
+        case 'checkout.session.async_payment_succeeded':
+          return toPaymentEvent(event, session, 'succeeded');
+        case 'checkout.session.async_payment_failed':
+          return toPaymentEvent(event, session, 'failed');
+        case 'checkout.session.expired':
+          return toPaymentEvent(event, session, 'expired');
+        default:
+          return null;
+      }
+    },
+  };
+};
@@ -0,0 +1,11 @@
+// supabase/functions/_shared/push/localPushSenders.ts
+// Stand-in for local development: logs pushes instead of contacting a push service.
+import type { PushPayload, PushSender, PushSubscriptionRecord } from './sender.ts';
+
+export const createConsolePushSender = (): PushSender => ({
+  name: 'console',
+  send: async (subscription: PushSubscriptionRecord, payload: PushPayload) => {
+    console.log(`--- push (console transport) to ${subscription.endpoint} ---\n${JSON.stringify(payload, null, 2)}`);
+    return 'sent';
+  },
+});
@@ -0,0 +1,47 @@
+// supabase/functions/_shared/push/sender.ts
+import { createWebPushSender } from './webPushSender.ts';
+import { createConsolePushSender } from './localPushSenders.ts';
+
+export interface PushSubscriptionRecord {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// What the service worker (public/push-sw.js) expects to receive.
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string; // Opened when the OS notification is clicked
+  tag?: string; // Notifications with the same tag replace each other
+}
+
+// 'gone' means the push service reported the subscription as expired; callers should delete it.
+export type PushSendResult = 'sent' | 'gone' | 'failed';
+
+export interface PushSender {
+  name: string;
+  send: (subscription: PushSubscriptionRecord, payload: PushPayload) => Promise<PushSendResult>;
+}
+
+// PUSH_TRANSPORT=webpush | console (default: webpush)
+export const createPushSenderFromEnv = (): PushSender => {
+  const transportName = (Deno.env.get('PUSH_TRANSPORT') || 'webpush').toLowerCase();
+  switch (transportName) {
+    case 'webpush': {
+      const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+      const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+      if (!publicKey || !privateKey) throw new Error('PUSH_TRANSPORT=webpush requires VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY.');
+      return createWebPushSender({
+        publicKey,
+        privateKey,
+        subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:no-reply@researchcollab.local',
+      });
+    }
+    case 'console':
+      return createConsolePushSender();
+    default:
+      throw new Error(`Unknown PUSH_TRANSPORT "${transportName}". Use webpush or console.`);
+  }
+};
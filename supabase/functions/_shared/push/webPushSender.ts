@@ -0,0 +1,33 @@
+// supabase/functions/_shared/push/webPushSender.ts
+import webpush from 'npm:web-push@3';
+import type { PushPayload, PushSender, PushSendResult, PushSubscriptionRecord } from './sender.ts';
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string; // mailto: or https: contact for the push service operator
+}
+
+// Standard Web Push (RFC 8030 + VAPID). Works against any push service URL,
+// including the local stand-in in supabase/dev/push-service-standin.ts.
+export const createWebPushSender = (vapid: VapidConfig): PushSender => {
+  webpush.setVapidDetails(vapid.subject, vapid.publicKey, vapid.privateKey);
+
+  return {
+    name: 'webpush',
+    send: async (subscription: PushSubscriptionRecord, payload: PushPayload): Promise<PushSendResult> => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(payload),
+          { TTL: 60 * 60 * 24 }
+        );
+        return 'sent';
+      } catch (err: any) {
+        if (err?.statusCode === 404 || err?.statusCode === 410) return 'gone';
+        console.error(`Web Push to ${subscription.endpoint} failed:`, err?.statusCode, err?.body || err);
+        return 'failed';
+      }
+    },
+  };
+};
@@ -0,0 +1,37 @@
+// supabase/functions/_shared/supabaseAdmin.ts
+import { createClient, SupabaseClient, User } from 'npm:@supabase/supabase-js@2';
+
+// Service-role client: bypasses RLS, so only use it in functions that do their own authorization.
+export const createAdminClient = (): SupabaseClient => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.');
+  }
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+};
+
+// Jobs triggered by pg_cron (or by hand) authenticate with the service-role key as bearer token.
+export const isServiceRoleRequest = (req: Request): boolean => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const authHeader = req.headers.get('Authorization') || '';
+  return !!serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`;
+};
+
+export const jsonResponse = (body: unknown, status: number = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Functions called from the browser with supabase.functions.invoke must answer the CORS preflight.
+export const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Resolves the signed-in caller from their access token (sent by supabase.functions.invoke).
+export const getRequestUser = async (supabase: SupabaseClient, req: Request): Promise<User | null> => {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user;
+};
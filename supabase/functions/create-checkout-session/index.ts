@@ -0,0 +1,156 @@
+// supabase/functions/create-checkout-session/index.ts
+// Opens a checkout session with the configured payment provider so a research lead can fund one of
+// their approved milestones. The amount always comes from the database, never from the request.
+import { corsHeaders, createAdminClient, getRequestUser, jsonResponse } from '../_shared/supabaseAdmin.ts';
+import { createPaymentProviderFromEnv } from '../_shared/payments/provider.ts';
+
+interface CheckoutRequest {
+  milestone_id?: string;
+}
+
+interface CheckoutMilestone {
+  id: string;
+  project_id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  status: string;
+  project: { id: string; title: string; posted_by_user_id: string } | null;
+}
+
+interface OpenPayment {
+  id: string;
+  status: 'pending' | 'succeeded';
+  checkout_url: string | null;
+  created_at: string;
+}
+
+// A pending payment whose session was never opened (the function failed midway) stops blocking new checkouts after this.
+const UNOPENED_PAYMENT_TIMEOUT_MS = 10 * 60 * 1000;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  const supabase = createAdminClient();
+  const user = await getRequestUser(supabase, req);
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401, corsHeaders);
+  }
+
+  let body: CheckoutRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400, corsHeaders);
+  }
+  if (!body.milestone_id) {
+    return jsonResponse({ error: 'milestone_id is required' }, 400, corsHeaders);
+  }
+
+  const { data: milestone, error: milestoneError } = await supabase
+    .from('milestones')
+    .select('id, project_id, description, amount, currency, status, project:projects(id, title, posted_by_user_id)')
+    .eq('id', body.milestone_id)
+    .maybeSingle<CheckoutMilestone>();
+  if (milestoneError) {
+    console.error('Error loading milestone:', milestoneError);
+    return jsonResponse({ error: milestoneError.message }, 500, corsHeaders);
+  }
+  const project = milestone?.project;
+  if (!milestone || !project) {
+    return jsonResponse({ error: 'Milestone not found' }, 404, corsHeaders);
+  }
+  if (project.posted_by_user_id !== user.id) {
+    return jsonResponse({ error: 'Only the project owner can fund its milestones' }, 403, corsHeaders);
+  }
+  if (milestone.status === 'paid') {
+    return jsonResponse({ error: 'This milestone has already been paid' }, 409, corsHeaders);
+  }
+  if (milestone.status !== 'approved') {
+    return jsonResponse({ error: 'Only milestones whose submission you approved can be funded' }, 409, corsHeaders);
+  }
+  const amount = Number(milestone.amount);
+  if (!(amount > 0)) {
+    return jsonResponse({ error: 'Invalid amount for payment.' }, 400, corsHeaders);
+  }
+
+  // One open checkout per milestone (see idx_milestone_payments_one_open_per_milestone): a second click or tab
+  // gets the session that is already open, so the lead cannot be charged twice.
+  const { data: openPayment, error: openPaymentError } = await supabase
+    .from('milestone_payments')
+    .select('id, status, checkout_url, created_at')
+    .eq('milestone_id', milestone.id)
+    .in('status', ['pending', 'succeeded'])
+    .maybeSingle<OpenPayment>();
+  if (openPaymentError) {
+    console.error('Error loading open payments:', openPaymentError);
+    return jsonResponse({ error: openPaymentError.message }, 500, corsHeaders);
+  }
+  if (openPayment?.status === 'succeeded') {
+    return jsonResponse({ error: 'This milestone has already been paid' }, 409, corsHeaders);
+  }
+  if (openPayment?.checkout_url) {
+    return jsonResponse({ checkout_url: openPayment.checkout_url, payment_id: openPayment.id }, 200, corsHeaders);
+  }
+  if (openPayment) {
+    if (Date.now() - new Date(openPayment.created_at).getTime() < UNOPENED_PAYMENT_TIMEOUT_MS) {
+      return jsonResponse({ error: 'A checkout for this milestone is already being opened. Please try again shortly.' }, 409, corsHeaders);
+    }
+    await supabase.from('milestone_payments').update({ status: 'expired' }).eq('id', openPayment.id).eq('status', 'pending');
+  }
+
+  const provider = createPaymentProviderFromEnv();
+  // Providers expect lowercase ISO codes; the milestone always carries its project's currency.
+  const currency = String(milestone.currency).trim().toLowerCase();
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('milestone_payments')
+    .insert({
+      milestone_id: milestone.id,
+      project_id: project.id,
+      initiated_by_user_id: user.id,
+      provider: provider.name,
+      amount,
+      currency,
+    })
+    .select('id')
+    .single();
+  if (paymentError?.code === '23505') {
+    return jsonResponse({ error: 'A checkout for this milestone is already being opened. Please try again shortly.' }, 409, corsHeaders);
+  }
+  if (paymentError || !payment) {
+    console.error('Error recording payment:', paymentError);
+    return jsonResponse({ error: paymentError?.message || 'Could not record payment' }, 500, corsHeaders);
+  }
+
+  const appBaseUrl = (Deno.env.get('APP_BASE_URL') || 'http://localhost:5173').replace(/\/$/, '');
+  const returnUrl = `${appBaseUrl}/#/projects/${project.id}/manage`;
+
+  try {
+    const session = await provider.createCheckoutSession({
+      paymentId: payment.id,
+      milestoneId: milestone.id,
+      projectId: project.id,
+      description: `${project.title}: ${milestone.description}`.slice(0, 250),
+      amount,
+      currency,
+      customerEmail: user.email,
+      successUrl: `${returnUrl}?payment=success&milestone=${milestone.id}`,
+      cancelUrl: `${returnUrl}?payment=cancelled&milestone=${milestone.id}`,
+    });
+    await supabase
+      .from('milestone_payments')
+      .update({ provider_session_id: session.sessionId, checkout_url: session.checkoutUrl })
+      .eq('id', payment.id);
+    return jsonResponse({ checkout_url: session.checkoutUrl, payment_id: payment.id }, 200, corsHeaders);
+  } catch (err: any) {
+    console.error(`${provider.name} checkout session failed:`, err);
+    await supabase.from('milestone_payments').update({ status: 'failed' }).eq('id', payment.id);
+    return jsonResponse({ error: 'The payment provider could not start checkout. Please try again.' }, 502, corsHeaders);
+  }
+});
@@ -0,0 +1,103 @@
+// supabase/functions/payment-webhook/index.ts
+// Receives events from the payment provider. Verified successful payments settle the matching
+// milestone_payments row and mark the milestone paid (public.settle_milestone_payment); the notify_milestones_status_update trigger
+// then tells the project's contributors. Deploy with --no-verify-jwt: providers cannot send a Supabase token,
+// so authenticity comes from the provider signature instead.
+import { createAdminClient, jsonResponse } from '../_shared/supabaseAdmin.ts';
+import { createPaymentProviderFromEnv, PaymentEvent, WebhookVerificationError } from '../_shared/payments/provider.ts';
+
+interface PaymentRow {
+  id: string;
+  milestone_id: string;
+  provider: string;
+  provider_session_id: string | null;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+}
+
+const settleSucceededPayment = async (
+  supabase: ReturnType<typeof createAdminClient>,
+  payment: PaymentRow,
+  event: PaymentEvent
+): Promise<Response> => {
+  // Never trust the amount in the event alone: it must match what the session was opened for.
+  if (Number(payment.amount) !== event.amount || payment.currency.toLowerCase() !== event.currency.toLowerCase()) {
+    console.error(`Payment ${payment.id}: event amount ${event.amount} ${event.currency} does not match ${payment.amount} ${payment.currency}.`);
+    await supabase.from('milestone_payments').update({ status: 'failed', provider_transaction_id: event.transactionId }).eq('id', payment.id);
+    return jsonResponse({ received: true, settled: false, reason: 'amount_mismatch' });
+  }
+
+  const { error: settleError } = await supabase.rpc('settle_milestone_payment', {
+    p_payment_id: payment.id,
+    p_transaction_id: event.transactionId || event.sessionId,
+  });
+  if (settleError) {
+    console.error('Error settling payment:', settleError);
+    return jsonResponse({ message: settleError.message }, 500); // Non-2xx: the provider retries later
+  }
+
+  return jsonResponse({ received: true, settled: true });
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ message: 'Method not allowed' }, 405);
+  }
+
+  const provider = createPaymentProviderFromEnv();
+  let event: PaymentEvent | null;
+  try {
+    event = await provider.parseWebhook(req);
+  } catch (err: any) {
+    if (err instanceof WebhookVerificationError) {
+      console.warn(`Rejected ${provider.name} webhook: ${err.message}`);
+      return jsonResponse({ message: err.message }, 400);
+    }
+    console.error(`Could not parse ${provider.name} webhook:`, err);
+    return jsonResponse({ message: 'Invalid webhook payload' }, 400);
+  }
+  if (!event) {
+    return jsonResponse({ received: true, ignored: true });
+  }
+
+  const supabase = createAdminClient();
+  const { data: payment, error } = await supabase
+    .from('milestone_payments')
+    .select('id, milestone_id, provider, provider_session_id, amount, currency, status')
+    .eq('id', event.paymentId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error loading payment:', error);
+    return jsonResponse({ message: error.message }, 500);
+  }
+  if (!payment || payment.provider !== provider.name || (payment.provider_session_id && payment.provider_session_id !== event.sessionId)) {
+    console.warn(`Event ${event.eventId} does not belong to a known ${provider.name} payment (${event.paymentId}).`);
+    return jsonResponse({ received: true, ignored: true });
+  }
+
+  // Providers deliver at least once; a settled payment stays settled. Settling again is a no-op apart from
+  // marking the milestone paid, should that have been missed.
+  if (payment.status === 'succeeded') {
+    const { error: settleError } = await supabase.rpc('settle_milestone_payment', {
+      p_payment_id: payment.id,
+      p_transaction_id: event.transactionId || event.sessionId,
+    });
+    if (settleError) {
+      console.error('Error re-settling payment:', settleError);
+      return jsonResponse({ message: settleError.message }, 500);
+    }
+    return jsonResponse({ received: true, duplicate: true });
+  }
+
+  if (event.outcome === 'succeeded') {
+    return settleSucceededPayment(supabase, payment as PaymentRow, event);
+  }
+
+  await supabase
+    .from('milestone_payments')
+    .update({ status: event.outcome })
+    .eq('id', payment.id)
+    .eq('status', 'pending');
+  return jsonResponse({ received: true, settled: false });
+});
@@ -0,0 +1,88 @@
+// supabase/functions/send-notification-digest/index.ts
+// Batches every unread notification flagged deliver_by_email into one email per user.
+// Invoked once a day by pg_cron (see supabase_schema.sql); weekly recipients are skipped
+// until seven days have passed since their last digest.
+import { createAdminClient, isServiceRoleRequest, jsonResponse } from '../_shared/supabaseAdmin.ts';
+import { createMailTransportFromEnv } from '../_shared/mail/transport.ts';
+import { renderDigest, DigestNotification, DigestRecipient } from './renderDigest.ts';
+
+interface PendingNotificationRow extends DigestNotification {
+  user_id: string;
+  user: DigestRecipient & { last_digest_sent_at: string | null };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Cron runs are never exactly 24h apart; allow an hour of slack so a recipient is not skipped a whole period.
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+const isDigestDue = (recipient: PendingNotificationRow['user'], now: Date): boolean => {
+  if (!recipient.last_digest_sent_at) return true;
+  const periodMs = recipient.email_digest_frequency === 'weekly' ? 7 * DAY_MS : DAY_MS;
+  return now.getTime() - new Date(recipient.last_digest_sent_at).getTime() >= periodMs - SCHEDULE_SLACK_MS;
+};
+
+Deno.serve(async (req: Request) => {
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ message: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createAdminClient();
+  const transport = createMailTransportFromEnv();
+  const appBaseUrl = Deno.env.get('APP_BASE_URL') || 'http://localhost:5173';
+  const now = new Date();
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('id, user_id, type, message, link, created_at, user:users(id, email, name, email_digest_frequency, last_digest_sent_at)')
+    .eq('deliver_by_email', true)
+    .eq('is_read', false)
+    .is('emailed_at', null)
+    .order('created_at', { ascending: true })
+    .returns<PendingNotificationRow[]>();
+
+  if (error) {
+    console.error('Error loading pending digest notifications:', error);
+    return jsonResponse({ message: error.message }, 500);
+  }
+
+  const byUser = new Map<string, PendingNotificationRow[]>();
+  (data || []).forEach(row => {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row]);
+  });
+
+  const summary = { transport: transport.name, sent: 0, skipped_not_due: 0, failed: 0 };
+
+  for (const [userId, rows] of byUser) {
+    const recipient = rows[0].user;
+    if (!recipient || !isDigestDue(recipient, now)) {
+      summary.skipped_not_due++;
+      continue;
+    }
+
+    try {
+      const rendered = renderDigest(recipient, rows, appBaseUrl);
+      await transport.send({ to: recipient.email, ...rendered });
+
+      const sentAt = now.toISOString();
+      const { error: markError } = await supabase
+        .from('notifications')
+        .update({ emailed_at: sentAt })
+        .in('id', rows.map(r => r.id));
+      if (markError) throw markError;
+
+      const { error: userError } = await supabase
+        .from('users')
+        .update({ last_digest_sent_at: sentAt })
+        .eq('id', userId);
+      if (userError) throw userError;
+
+      summary.sent++;
+    } catch (err) {
+      // One bad address or SMTP hiccup must not stop the rest of the batch; the rows stay pending for the next run.
+      console.error(`Failed to send notification digest to user ${userId}:`, err);
+      summary.failed++;
+    }
+  }
+
+  return jsonResponse(summary);
+});
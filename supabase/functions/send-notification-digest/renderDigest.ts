@@ -0,0 +1,93 @@
+// supabase/functions/send-notification-digest/renderDigest.ts
+import type { MailMessage } from '../_shared/mail/transport.ts';
+
+export interface DigestRecipient {
+  id: string;
+  email: string;
+  name: string;
+  email_digest_frequency: 'daily' | 'weekly';
+}
+
+export interface DigestNotification {
+  id: string;
+  type: string;
+  message: string;
+  link: string | null;
+  created_at: string;
+}
+
+// Section headings, in the order they appear in the email.
+const TYPE_HEADINGS: Record<string, string> = {
+  new_application: 'New applications',
+  application_status_update: 'Application status updates',
+  project_milestone_update: 'Milestone updates',
+  project_funded: 'Milestone payments',
+  chat_thread_reply: 'Replies to your chat messages',
+  new_message_in_project: 'New project chat messages',
+  generic_system_update: 'Project and system updates',
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The app uses a HashRouter, so in-app links such as /projects/<id> live under /#/.
+const toAppUrl = (appBaseUrl: string, link: string | null): string | null =>
+  link ? `${appBaseUrl.replace(/\/$/, '')}/#${link}` : null;
+
+const groupByType = (notifications: DigestNotification[]): [string, DigestNotification[]][] => {
+  const groups = new Map<string, DigestNotification[]>();
+  notifications.forEach(n => {
+    groups.set(n.type, [...(groups.get(n.type) || []), n]);
+  });
+  const order = Object.keys(TYPE_HEADINGS);
+  return [...groups.entries()].sort(([a], [b]) => order.indexOf(a) - order.indexOf(b));
+};
+
+export const renderDigest = (recipient: DigestRecipient, notifications: DigestNotification[], appBaseUrl: string): Omit<MailMessage, 'to'> => {
+  const period = recipient.email_digest_frequency === 'weekly' ? 'weekly' : 'daily';
+  const subject = `Your ${period} ResearchCollab digest: ${notifications.length} update${notifications.length === 1 ? '' : 's'}`;
+  const groups = groupByType(notifications);
+  const preferencesUrl = toAppUrl(appBaseUrl, '/profile');
+
+  const textSections = groups.map(([type, items]) => [
+    `${TYPE_HEADINGS[type] || type} (${items.length})`,
+    ...items.map(n => {
+      const url = toAppUrl(appBaseUrl, n.link);
+      return `  - ${n.message} [${new Date(n.created_at).toUTCString()}]${url ? `\n    ${url}` : ''}`;
+    }),
+  ].join('\n'));
+
+  const text = [
+    `Hi ${recipient.name},`,
+    '',
+    `Here is what happened on ResearchCollab since your last digest:`,
+    '',
+    ...textSections.flatMap(section => [section, '']),
+    `Change which updates you receive by email: ${preferencesUrl}`,
+  ].join('\n');
+
+  const htmlSections = groups.map(([type, items]) => `
+    <h3 style="color:#007A7A;margin:24px 0 8px;">${escapeHtml(TYPE_HEADINGS[type] || type)} (${items.length})</h3>
+    <ul style="padding-left:20px;margin:0;">
+      ${items.map(n => {
+        const url = toAppUrl(appBaseUrl, n.link);
+        const message = escapeHtml(n.message);
+        return `<li style="margin-bottom:6px;">${url ? `<a href="${escapeHtml(url)}">${message}</a>` : message}
+          <span style="color:#888;font-size:12px;"> &middot; ${escapeHtml(new Date(n.created_at).toUTCString())}</span></li>`;
+      }).join('')}
+    </ul>`).join('');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family:Arial,sans-serif;color:#333;max-width:600px;margin:0 auto;padding:16px;">
+    <p>Hi ${escapeHtml(recipient.name)},</p>
+    <p>Here is what happened on ResearchCollab since your last digest:</p>
+    ${htmlSections}
+    <p style="margin-top:32px;font-size:12px;color:#888;">
+      <a href="${escapeHtml(preferencesUrl || '')}">Change which updates you receive by email</a>
+    </p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
@@ -0,0 +1,101 @@
+// supabase/functions/send-push-notification/index.ts
+// Receives newly inserted notifications (see the push_notifications_insert trigger in supabase_schema.sql)
+// and delivers the important ones as OS-level notifications to every device the recipient registered.
+import { createAdminClient, isServiceRoleRequest, jsonResponse } from '../_shared/supabaseAdmin.ts';
+import { createPushSenderFromEnv, PushPayload, PushSubscriptionRecord } from '../_shared/push/sender.ts';
+
+interface NotificationRecord {
+  id: string;
+  user_id: string;
+  type: string;
+  message: string;
+  link: string | null;
+  deliver_in_app: boolean;
+  related_application_id: string | null;
+}
+
+interface WebhookPayload {
+  type: 'INSERT';
+  table: string;
+  record: NotificationRecord;
+}
+
+const PUSH_TITLES: Record<string, string> = {
+  application_status_update: 'Application accepted',
+  project_funded: 'Milestone paid',
+};
+
+// Only accepted applications and paid milestones are worth interrupting someone for.
+const isPushWorthy = async (
+  supabase: ReturnType<typeof createAdminClient>,
+  notification: NotificationRecord
+): Promise<boolean> => {
+  if (!notification.deliver_in_app) return false;
+  if (notification.type === 'project_funded') return true;
+  if (notification.type === 'application_status_update' && notification.related_application_id) {
+    const { data } = await supabase
+      .from('applications')
+      .select('status, contributor_user_id')
+      .eq('id', notification.related_application_id)
+      .single();
+    // The owner also gets application_status_update rows (withdrawals); only the accepted applicant is pushed.
+    return data?.status === 'accepted' && data?.contributor_user_id === notification.user_id;
+  }
+  return false;
+};
+
+Deno.serve(async (req: Request) => {
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ message: 'Unauthorized' }, 401);
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = await req.json();
+  } catch {
+    return jsonResponse({ message: 'Invalid JSON body' }, 400);
+  }
+  if (payload.table !== 'notifications' || !payload.record) {
+    return jsonResponse({ message: 'Expected a notifications INSERT payload' }, 400);
+  }
+
+  const supabase = createAdminClient();
+  const notification = payload.record;
+
+  if (!(await isPushWorthy(supabase, notification))) {
+    return jsonResponse({ skipped: true });
+  }
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', notification.user_id);
+  if (error) {
+    console.error('Error loading push subscriptions:', error);
+    return jsonResponse({ message: error.message }, 500);
+  }
+
+  const sender = createPushSenderFromEnv();
+  const pushPayload: PushPayload = {
+    title: PUSH_TITLES[notification.type] || 'ResearchCollab',
+    body: notification.message,
+    url: notification.link ? `/#${notification.link}` : '/',
+    tag: notification.id,
+  };
+
+  const summary = { transport: sender.name, sent: 0, removed: 0, failed: 0 };
+  for (const subscription of (subscriptions || []) as PushSubscriptionRecord[]) {
+    const result = await sender.send(subscription, pushPayload);
+    if (result === 'sent') {
+      summary.sent++;
+      await supabase.from('push_subscriptions').update({ last_used_at: new Date().toISOString() }).eq('id', subscription.id);
+    } else if (result === 'gone') {
+      summary.removed++;
+      await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return jsonResponse(summary);
+});